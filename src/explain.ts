@@ -0,0 +1,197 @@
+"use strict";
+
+import { Predicate } from "./predicate";
+
+/**
+ * The outcome of evaluating an Explainable predicate, along with the outcome
+ * of each of its sub-predicates.
+ */
+export interface Report {
+    readonly label: string;
+    readonly kind: ReportKind;
+    readonly passed: boolean;
+    readonly children: Report[];
+}
+export type ReportKind =
+    "leaf" | "every" | "some" | "not" | "oneOf" | "noneOf" | "map";
+
+/**
+ * A labelled Predicate which, in addition to being callable as a plain
+ * Predicate, can explain its decision as a Report.
+ */
+export interface Explainable<T> {
+    (object: T): boolean;
+    readonly label: string;
+    explain(object: T): Report;
+}
+
+/**
+ * Creates an Explainable predicate with the given label. Relabels predicate
+ * if it is already Explainable, otherwise makes it a leaf.
+ */
+export function named<T>(
+    label: string,
+    predicate: Predicate<T> | Explainable<T>
+): Explainable<T> {
+    if (isExplainable(predicate)) {
+        const inner = predicate;
+        return explainable(label, inner, object => {
+            const report = inner.explain(object);
+            return { ...report, label };
+        });
+    }
+    return explainable(label, predicate, object => ({
+        label, kind: "leaf", passed: predicate(object), children: []
+    }));
+}
+
+/**
+ * An Explainable counterpart of `every` in "./predicate".
+ */
+export function every<T>(
+    ...predicates: (Predicate<T> | Explainable<T>)[]
+): Explainable<T> {
+    const children = predicates.map(toExplainable);
+    return combine("every", "every", children,
+        reports => reports.every(r => r.passed));
+}
+
+/**
+ * An Explainable counterpart of `some` in "./predicate".
+ */
+export function some<T>(
+    ...predicates: (Predicate<T> | Explainable<T>)[]
+): Explainable<T> {
+    const children = predicates.map(toExplainable);
+    return combine("some", "some", children,
+        reports => reports.some(r => r.passed));
+}
+
+/**
+ * An Explainable counterpart of `not` in "./predicate".
+ */
+export function not<T>(
+    predicate: Predicate<T> | Explainable<T>
+): Explainable<T> {
+    const child = toExplainable(predicate);
+    return combine(`not ${child.label}`, "not", [child],
+        reports => !reports[0].passed);
+}
+
+/**
+ * An Explainable counterpart of `oneOf` in "./predicate".
+ */
+export function oneOf<T>(
+    ...predicates: (Predicate<T> | Explainable<T>)[]
+): Explainable<T> {
+    const children = predicates.map(toExplainable);
+    return combine("oneOf", "oneOf", children,
+        reports => reports.filter(r => r.passed).length === 1);
+}
+
+/**
+ * An Explainable counterpart of `noneOf` in "./predicate". Its Report has a
+ * `not` child for each input predicate.
+ */
+export function noneOf<T>(
+    ...predicates: (Predicate<T> | Explainable<T>)[]
+): Explainable<T> {
+    const children = predicates.map(p => not(p));
+    return combine("noneOf", "noneOf", children,
+        reports => reports.every(r => r.passed));
+}
+
+/**
+ * An Explainable counterpart of `map` in "./predicate". Takes the label of
+ * predicate.
+ */
+export function map<T1, T2>(
+    mapper: (object: T1) => T2,
+    predicate: Predicate<T2> | Explainable<T2>
+): Explainable<T1> {
+    const child = toExplainable(predicate);
+    return explainable(child.label,
+        (object: T1) => child(mapper(object)),
+        object => {
+            const report = child.explain(mapper(object));
+            return {
+                label: child.label, kind: "map",
+                passed: report.passed, children: [report]
+            };
+        });
+}
+
+/**
+ * Lists the most specific reasons for a Report failing: descends through
+ * `every`, `noneOf` and `map` nodes (any of whose failing children fails
+ * them), and stops at any other failing node.
+ *
+ * @returns  an empty array if report passed.
+ */
+export function failures(report: Report): Report[] {
+    if (report.passed) return [];
+    switch (report.kind) {
+        case "every":
+        case "noneOf":
+        case "map": {
+            const nested: Report[] = [];
+            for (const child of report.children) {
+                nested.push(...failures(child));
+            }
+            return nested.length > 0 ? nested : [report];
+        }
+        default:
+            return [report];
+    }
+}
+
+// Implementation details
+function isExplainable<T>(
+    predicate: Predicate<T> | Explainable<T>
+): predicate is Explainable<T> {
+    return typeof (predicate as Explainable<T>).explain === "function";
+}
+
+function toExplainable<T>(
+    predicate: Predicate<T> | Explainable<T>
+): Explainable<T> {
+    return isExplainable(predicate) ?
+        predicate :
+        named(predicate.name || "anonymous", predicate);
+}
+
+function explainable<T>(
+    label: string,
+    test: Predicate<T>,
+    explain: (object: T) => Report
+): Explainable<T> {
+    const result: Explainable<T> =
+        Object.assign((object: T) => test(object), { label, explain });
+    return result;
+}
+
+// Called as a plain Predicate, a combination short-circuits like its
+// counterpart in "./predicate"; explaining evaluates every child, so that the
+// Report is complete.
+function combine<T>(
+    label: string,
+    kind: ReportKind,
+    children: Explainable<T>[],
+    decide: (reports: { passed: boolean }[]) => boolean
+): Explainable<T> {
+    const test = (object: T) => {
+        switch (kind) {
+            case "every":
+            case "noneOf":
+                return children.every(c => c(object));
+            case "some":
+                return children.some(c => c(object));
+            default:
+                return decide(children.map(c => ({ passed: c(object) })));
+        }
+    };
+    return explainable(label, test, object => {
+        const reports = children.map(c => c.explain(object));
+        return { label, kind, passed: decide(reports), children: reports };
+    });
+}
@@ -1,8 +1,14 @@
 "use strict";
 
-export type Maybe<T> = T | void;
+/**
+ * A Maybe<T> is either a value of type T, or no value. Both `null` and
+ * `undefined` represent no value; functions of this module returning no value
+ * return `undefined`.
+ */
+export type Maybe<T> = T | null | undefined | void;
+
 export function hasValue<T>(m: Maybe<T>): m is T {
-    return m !== undefined;
+    return m !== undefined && m !== null;
 }
 export function getOrElse<T>(m: Maybe<T>, els: T): T {
     if (hasValue<T>(m)) {
@@ -12,13 +18,144 @@ export function getOrElse<T>(m: Maybe<T>, els: T): T {
 export function map<T, R>(m: Maybe<T>, f: (m: T) => R): Maybe<R> {
     if (hasValue<T>(m)) {
         return f(m);
-    } else return m;
+    } else return undefined;
 }
 export function flatMap<T, R>(m: Maybe<T>, f: (m: T) => Maybe<R>): Maybe<R> {
     if (hasValue<T>(m)) {
         return f(m);
-    } else return m;
+    } else return undefined;
 }
 export function filter<T>(m: Maybe<T>, f: (m: T) => boolean): Maybe<T> {
     return hasValue<T>(m) && f(m) ? m : undefined;
 }
+
+/**
+ * @returns  m if it has a value, otherwise the Maybe returned by els.
+ */
+export function orElse<T>(m: Maybe<T>, els: () => Maybe<T>): Maybe<T> {
+    return hasValue<T>(m) ? m : els();
+}
+
+/**
+ * @returns  the value of m.
+ * @throws  error (or a default Error) if m has no value.
+ */
+export function getOrThrow<T>(m: Maybe<T>, error?: any): T {
+    if (hasValue<T>(m)) {
+        return m;
+    }
+    throw error === undefined ? new Error("Maybe has no value.") : error;
+}
+
+/**
+ * Converts a nullable value into a Maybe, normalizing `null` to `undefined`.
+ */
+export function fromNullable<T>(value: T | null | undefined): Maybe<T> {
+    return hasValue<T>(value) ? value : undefined;
+}
+
+/**
+ * @returns  an array with the value of m, or an empty array.
+ */
+export function toArray<T>(m: Maybe<T>): T[] {
+    return hasValue<T>(m) ? [m] : [];
+}
+
+/**
+ * Calls `some` with the value of m if it has one, otherwise calls `none`.
+ */
+export function match<T, R>(
+    m: Maybe<T>,
+    cases: { some: (value: T) => R, none: () => R }
+): R {
+    return hasValue<T>(m) ? cases.some(m) : cases.none();
+}
+
+/**
+ * @returns  a tuple of the values of all input Maybes if each of them has a
+ *           value, otherwise no value.
+ */
+export function zip<A, B>(a: Maybe<A>, b: Maybe<B>): Maybe<[A, B]>;
+export function zip<A, B, C>(
+    a: Maybe<A>, b: Maybe<B>, c: Maybe<C>): Maybe<[A, B, C]>;
+export function zip<A, B, C, D>(
+    a: Maybe<A>, b: Maybe<B>, c: Maybe<C>, d: Maybe<D>): Maybe<[A, B, C, D]>;
+export function zip(...ms: Maybe<any>[]): Maybe<any[]>;
+export function zip(...ms: Maybe<any>[]): Maybe<any[]> {
+    return all(ms);
+}
+
+/**
+ * @returns  an array of the values of all input Maybes if each of them has a
+ *           value, otherwise no value.
+ */
+export function all<T>(ms: Maybe<T>[]): Maybe<T[]> {
+    const values: T[] = [];
+    for (const m of ms) {
+        if (!hasValue<T>(m)) return undefined;
+        values.push(m);
+    }
+    return values;
+}
+
+/**
+ * A fluent wrapper around Maybe<T>, for chaining operations of this module.
+ * Use Option.of to wrap a Maybe, and toMaybe to unwrap it.
+ */
+export class Option<T> {
+    private constructor(private readonly value: Maybe<T>) { }
+
+    static of<T>(m: Maybe<T>): Option<T> {
+        return new Option(fromNullable<T>(m as T | null | undefined));
+    }
+    static some<T>(value: T): Option<T> {
+        return new Option(value);
+    }
+    static none<T>(): Option<T> {
+        return new Option<T>(undefined);
+    }
+
+    isSome(): boolean {
+        return hasValue<T>(this.value);
+    }
+    isNone(): boolean {
+        return !this.isSome();
+    }
+    toMaybe(): Maybe<T> {
+        return this.value;
+    }
+
+    map<R>(f: (value: T) => R): Option<R> {
+        return Option.of(map(this.value, f));
+    }
+    /**
+     * @param f  returns either an Option or a bare Maybe.
+     */
+    flatMap<R>(f: (value: T) => Option<R> | Maybe<R>): Option<R> {
+        return Option.of(flatMap(this.value, value => {
+            const result = f(value);
+            return result instanceof Option ? result.value : result;
+        }));
+    }
+    filter(f: (value: T) => boolean): Option<T> {
+        return Option.of(filter(this.value, f));
+    }
+    orElse(els: () => Option<T> | Maybe<T>): Option<T> {
+        return Option.of(orElse(this.value, () => {
+            const result = els();
+            return result instanceof Option ? result.value : result;
+        }));
+    }
+    getOrElse(els: T): T {
+        return getOrElse(this.value, els);
+    }
+    getOrThrow(error?: any): T {
+        return getOrThrow(this.value, error);
+    }
+    match<R>(cases: { some: (value: T) => R, none: () => R }): R {
+        return match(this.value, cases);
+    }
+    toArray(): T[] {
+        return toArray(this.value);
+    }
+}
@@ -0,0 +1,82 @@
+"use strict";
+
+/**
+ * A Result<T, E> is either a successful value of type T (Ok), or a failure
+ * of type E (Err).
+ */
+export type Result<T, E = any> = Ok<T> | Err<E>;
+export type Ok<T> = { readonly ok: true, readonly value: T };
+export type Err<E> = { readonly ok: false, readonly error: E };
+
+export function ok<T>(value: T): Ok<T> {
+    return { ok: true, value };
+}
+export function err<E>(error: E): Err<E> {
+    return { ok: false, error };
+}
+export function isOk<T, E>(r: Result<T, E>): r is Ok<T> {
+    return r.ok;
+}
+export function isErr<T, E>(r: Result<T, E>): r is Err<E> {
+    return !r.ok;
+}
+export function map<T, E, R>(r: Result<T, E>, f: (value: T) => R): Result<R, E> {
+    return isOk(r) ? ok(f(r.value)) : r;
+}
+export function mapErr<T, E, F>(
+    r: Result<T, E>, f: (error: E) => F): Result<T, F> {
+    return isOk(r) ? r : err(f(r.error));
+}
+export function flatMap<T, E, R>(
+    r: Result<T, E>, f: (value: T) => Result<R, E>): Result<R, E> {
+    return isOk(r) ? f(r.value) : r;
+}
+export function unwrapOr<T, E>(r: Result<T, E>, els: T): T {
+    return isOk(r) ? r.value : els;
+}
+
+/**
+ * @returns  an Ok of all values if every input Result is Ok, otherwise the
+ *           first Err.
+ */
+export function all<T, E>(rs: Result<T, E>[]): Result<T[], E> {
+    const values: T[] = [];
+    for (const r of rs) {
+        if (isErr(r)) return r;
+        values.push(r.value);
+    }
+    return ok(values);
+}
+
+/**
+ * Splits Results into their values and their errors, preserving order.
+ */
+export function partition<T, E>(
+    rs: Result<T, E>[]): { values: T[], errors: E[] } {
+    const values: T[] = [];
+    const errors: E[] = [];
+    for (const r of rs) {
+        if (isOk(r)) values.push(r.value);
+        else errors.push(r.error);
+    }
+    return { values, errors };
+}
+
+/**
+ * Calls f, capturing what it returns as Ok, or what it throws as Err.
+ */
+export function tryCatch<T, E = any>(f: () => T): Result<T, E> {
+    try {
+        return ok(f());
+    } catch (e) {
+        return err<E>(e);
+    }
+}
+
+/**
+ * @returns  a Promise which always resolves: with Ok if p resolves, or with
+ *           Err if p rejects.
+ */
+export function fromPromise<T, E = any>(p: Promise<T>): Promise<Result<T, E>> {
+    return p.then(value => ok(value), (error: E) => err(error));
+}
@@ -1,9 +1,25 @@
 export type Predicate<T> = (object: T) => boolean;
 
+/**
+ * A Predicate which is also a type guard, narrowing `T` to `R`.
+ */
+export type Guard<T, R extends T> = (object: T) => object is R;
+
+/**
+ * The type narrowed to by a Guard, or `any` for a plain Predicate.
+ */
+export type Guarded<P> = P extends (object: any) => object is infer R ? R : any;
+
 /**
  * Creates a new Predicate returning true if and only if each input predicate
- * accepts a given object.
+ * accepts a given object. Combining type guards yields a type guard for the
+ * intersection of their types.
  */
+export function every<T, A extends T, B extends T>(
+    a: Guard<T, A>, b: Guard<T, B>): Guard<T, A & B>;
+export function every<T, A extends T, B extends T, C extends T>(
+    a: Guard<T, A>, b: Guard<T, B>, c: Guard<T, C>): Guard<T, A & B & C>;
+export function every<T>(...predicates: Predicate<T>[]): Predicate<T>;
 export function every<T>(...predicates: Predicate<T>[]): Predicate<T> {
     return (object: T) => {
         for (const predicate of predicates) {
@@ -17,8 +33,14 @@ export function every<T>(...predicates: Predicate<T>[]): Predicate<T> {
 
 /**
  * Creates a new Predicate returning true if and only if at least one input
- * predicate accepts a given object.
+ * predicate accepts a given object. Combining type guards yields a type guard
+ * for the union of their types.
  */
+export function some<T, A extends T, B extends T>(
+    a: Guard<T, A>, b: Guard<T, B>): Guard<T, A | B>;
+export function some<T, A extends T, B extends T, C extends T>(
+    a: Guard<T, A>, b: Guard<T, B>, c: Guard<T, C>): Guard<T, A | B | C>;
+export function some<T>(...predicates: Predicate<T>[]): Predicate<T>;
 export function some<T>(...predicates: Predicate<T>[]): Predicate<T> {
     return (object: T) => {
         for (const predicate of predicates) {
@@ -67,3 +89,233 @@ export function oneOf<T>(...predicates: Predicate<T>[]): Predicate<T> {
 export function noneOf<T>(...predicates: Predicate<T>[]): Predicate<T> {
     return every(... predicates.map(not));
 }
+
+/**
+ * Accepts any value other than `null` and `undefined`.
+ */
+export function isDefined<T>(object: T | null | undefined): object is T {
+    return object !== undefined && object !== null;
+}
+
+/**
+ * Accepts strings.
+ */
+export function isString(object: any): object is string {
+    return typeof object === "string";
+}
+
+/**
+ * Accepts numbers, excluding NaN.
+ */
+export function isNumber(object: any): object is number {
+    return typeof object === "number" && !isNaN(object);
+}
+
+/**
+ * Accepts booleans.
+ */
+export function isBoolean(object: any): object is boolean {
+    return typeof object === "boolean";
+}
+
+/**
+ * Creates a new Predicate accepting objects strictly equal to value.
+ */
+export function equals<T>(value: T): Predicate<T> {
+    return (object: T) => object === value;
+}
+
+/**
+ * Creates a new Predicate accepting numbers between min and max, inclusive.
+ */
+export function inRange(min: number, max: number): Predicate<number> {
+    return (object: number) => object >= min && object <= max;
+}
+
+/**
+ * Creates a new Predicate accepting strings matched by regex.
+ */
+export function matches(regex: RegExp): Predicate<string> {
+    return (object: string) => {
+        // a global or sticky regex would otherwise resume from its last match.
+        regex.lastIndex = 0;
+        return regex.test(object);
+    };
+}
+
+/**
+ * Creates a new type guard accepting objects with a defined property `key`,
+ * whose value is accepted by predicate (if supplied).
+ */
+export function hasProperty<K extends string, V>(
+    key: K, predicate: (value: any) => value is V
+): <T>(object: T) => object is T & { [P in K]: V };
+export function hasProperty<K extends string>(
+    key: K, predicate?: Predicate<any>
+): <T>(object: T) => object is T & { [P in K]: any };
+export function hasProperty<K extends string>(
+    key: K, predicate?: Predicate<any>
+): <T>(object: T) => object is T & { [P in K]: any } {
+    return <T>(object: T): object is T & { [P in K]: any } => {
+        if (!isDefined(object)) return false;
+        const value = (object as any)[key];
+        return value !== undefined && (!predicate || predicate(value));
+    };
+}
+
+/**
+ * Creates a new type guard accepting objects whose properties are accepted
+ * by the corresponding predicates of spec. Type guards in spec narrow the
+ * type of their property.
+ *
+ * @example shape({ name: isString, age: inRange(0, 150) })
+ */
+export function shape<S extends { [key: string]: Predicate<any> }>(
+    spec: S
+): <T>(object: T) => object is T & { [K in keyof S]: Guarded<S[K]> } {
+    const keys = Object.keys(spec);
+    return <T>(object: T): object is T & { [K in keyof S]: Guarded<S[K]> } => {
+        if (!isDefined(object)) return false;
+        return keys.every(key => spec[key]((object as any)[key]));
+    };
+}
+
+/**
+ * A Predicate which might decide asynchronously.
+ */
+export type AsyncPredicate<T> = (object: T) => boolean | Promise<boolean>;
+
+export interface AsyncOptions {
+    /**
+     * "sequential" (the default) evaluates one predicate at a time, in order,
+     * and stops as soon as the outcome is known. "parallel" evaluates all
+     * predicates at once, and resolves as soon as the outcome is known.
+     */
+    evaluation?: "sequential" | "parallel";
+}
+
+// Implementation detail of async combinators: `step` is fed each predicate's
+// result, and returns the outcome as soon as it is known. `last` returns the
+// outcome once all results are in.
+type Decision = {
+    step: (accepted: boolean) => boolean | undefined,
+    last: () => boolean
+};
+
+function evaluate<T>(
+    predicates: AsyncPredicate<T>[],
+    object: T,
+    options: AsyncOptions,
+    decision: Decision
+): Promise<boolean> {
+    // also turns exceptions thrown by predicate into rejections.
+    const call = (predicate: AsyncPredicate<T>) =>
+        new Promise<boolean>(resolve => resolve(predicate(object)));
+
+    if (options.evaluation === "parallel") {
+        return new Promise<boolean>((resolve, reject) => {
+            let pending = predicates.length;
+            if (pending === 0) resolve(decision.last());
+
+            for (const predicate of predicates) {
+                call(predicate).then(accepted => {
+                    const outcome = decision.step(accepted);
+                    if (outcome !== undefined) resolve(outcome);
+                    else if (--pending === 0) resolve(decision.last());
+                }, reject);
+            }
+        });
+    }
+
+    const next = (index: number): Promise<boolean> => {
+        if (index >= predicates.length) {
+            return Promise.resolve(decision.last());
+        }
+        return call(predicates[index]).then(accepted => {
+            const outcome = decision.step(accepted);
+            return outcome !== undefined ? outcome : next(index + 1);
+        });
+    };
+    return next(0);
+}
+
+/**
+ * Creates a new AsyncPredicate resolving to true if and only if each input
+ * predicate accepts a given object.
+ */
+export function everyAsync<T>(
+    predicates: AsyncPredicate<T>[],
+    options: AsyncOptions = {}
+): (object: T) => Promise<boolean> {
+    return (object: T) => evaluate(predicates, object, options, {
+        step: accepted => accepted ? undefined : false,
+        last: () => true
+    });
+}
+
+/**
+ * Creates a new AsyncPredicate resolving to true if and only if at least one
+ * input predicate accepts a given object.
+ */
+export function someAsync<T>(
+    predicates: AsyncPredicate<T>[],
+    options: AsyncOptions = {}
+): (object: T) => Promise<boolean> {
+    return (object: T) => evaluate(predicates, object, options, {
+        step: accepted => accepted ? true : undefined,
+        last: () => false
+    });
+}
+
+/**
+ * Creates a new AsyncPredicate accepting an object of the unmapped type.
+ * @param mapper Maps objects from `T1` to `T2`, possibly asynchronously.
+ * @param predicate The original predicate.
+ */
+export function mapAsync<T1, T2>(
+    mapper: (object: T1) => T2 | Promise<T2>,
+    predicate: AsyncPredicate<T2>
+): (object: T1) => Promise<boolean> {
+    return (object: T1) => Promise.resolve(mapper(object)).then(predicate);
+}
+
+/**
+ * Creates a new AsyncPredicate resolving to the complement of the input
+ * predicate.
+ * @param predicate The original predicate.
+ */
+export function notAsync<T>(
+    predicate: AsyncPredicate<T>
+): (object: T) => Promise<boolean> {
+    return (object: T) =>
+        new Promise<boolean>(resolve => resolve(predicate(object)))
+            .then(accepted => !accepted);
+}
+
+/**
+ * Creates a new AsyncPredicate resolving to true if and only if exactly one
+ * of the input predicates accepts a given object.
+ */
+export function oneOfAsync<T>(
+    predicates: AsyncPredicate<T>[],
+    options: AsyncOptions = {}
+): (object: T) => Promise<boolean> {
+    return (object: T) => {
+        let count = 0;
+        return evaluate(predicates, object, options, {
+            step: accepted => accepted && ++count > 1 ? false : undefined,
+            last: () => count === 1
+        });
+    };
+}
+
+/**
+ * Creates a new AsyncPredicate resolving to true if and only no supplied
+ * predicate accepts a given input.
+ */
+export function noneOfAsync<T>(
+    predicates: AsyncPredicate<T>[],
+    options: AsyncOptions = {}
+): (object: T) => Promise<boolean> {
+    return everyAsync(predicates.map(notAsync), options);
+}
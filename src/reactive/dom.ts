@@ -0,0 +1,39 @@
+"use strict";
+
+// Structural types for EventTarget interop. Any EventTarget implementation
+// conforms to these: DOM nodes, window, WebSocket, AbortSignal, as well as
+// the EventTarget of Node.js.
+
+export interface ListenerOptions {
+    capture?: boolean;
+    once?: boolean;
+    passive?: boolean;
+}
+
+/**
+ * The subset of an EventTarget used by Observable.fromEventTarget.
+ */
+export interface EventTargetLike<E> {
+    addEventListener(
+        type: string,
+        listener: (event: E) => void,
+        options?: ListenerOptions
+    ): void;
+    removeEventListener(
+        type: string,
+        listener: (event: E) => void,
+        options?: ListenerOptions
+    ): void;
+}
+
+/**
+ * The subset of an AbortSignal used for cancellation.
+ */
+export interface AbortSignalLike extends EventTargetLike<any> {
+    readonly aborted: boolean;
+}
+
+export interface EventTargetOptions extends ListenerOptions {
+    /** completes the Observable, removing its listener, once aborted. */
+    signal?: AbortSignalLike;
+}
@@ -0,0 +1,99 @@
+"use strict";
+
+/**
+ * Anything which can be unsubscribed, releasing its resources.
+ */
+export interface Unsubscribable {
+    unsubscribe(): void;
+}
+
+/**
+ * Callbacks receiving the events of an Observable, as passed to
+ * Observable.subscribe. All of them are optional.
+ */
+export interface Observer<T> {
+    next?: (value: T) => void;
+    /**
+     * receives the failure of the Observable, as well as any error thrown by
+     * `next`.
+     */
+    error?: (err: any) => void;
+    complete?: () => void;
+}
+
+/**
+ * Callbacks receiving the events of an Observable as side effects, as passed
+ * to Observable.tap.
+ */
+export interface TapObserver<T> extends Observer<T> {
+    /**
+     * called when the tapped Observable loses all its listeners before it is
+     * done.
+     */
+    unsubscribe?: () => void;
+}
+
+/**
+ * A SubscriptionHandle represents an Observer subscribed to an Observable,
+ * as returned by Observable.subscribe. It is closed once unsubscribed, or
+ * once the Observable is done or fails.
+ */
+export class SubscriptionHandle implements Unsubscribable {
+    private _closed = false;
+
+    constructor(private readonly _teardown: () => void) { }
+
+    get closed(): boolean {
+        return this._closed;
+    }
+
+    unsubscribe(): void {
+        if (this._closed) return;
+        this._closed = true;
+        this._teardown();
+    }
+}
+
+/**
+ * A CompositeHandle groups several subscriptions (or teardown functions),
+ * unsubscribing all of them at once. Anything added once it is closed is
+ * unsubscribed immediately.
+ */
+export class CompositeHandle implements Unsubscribable {
+    private _children?: Unsubscribable[] = [];
+
+    constructor(...children: (Unsubscribable | (() => void))[]) {
+        children.forEach(child => this.add(child));
+    }
+
+    get closed(): boolean {
+        return this._children === undefined;
+    }
+
+    /**
+     * @returns  the added Unsubscribable, wrapping child if it is a function.
+     */
+    add(child: Unsubscribable | (() => void)): Unsubscribable {
+        const handle = typeof child === "function" ?
+            new SubscriptionHandle(child) :
+            child;
+        if (this._children) this._children.push(handle);
+        else handle.unsubscribe();
+        return handle;
+    }
+
+    /**
+     * Removes child without unsubscribing it.
+     */
+    remove(child: Unsubscribable): void {
+        if (!this._children) return;
+        const index = this._children.indexOf(child);
+        if (index >= 0) this._children.splice(index, 1);
+    }
+
+    unsubscribe(): void {
+        const children = this._children;
+        this._children = undefined;
+        if (children) children.forEach(child => child.unsubscribe());
+    }
+}
@@ -0,0 +1,142 @@
+"use strict";
+
+import { Observable, Signal } from "./observable";
+import { Scheduler, defaultScheduler } from "./scheduler";
+
+/**
+ * An event in the lifetime of an Observable, as reported to instrumentation
+ * hooks. `listeners` is the number of listeners after a listener attached or
+ * detached. Observables can be told apart using Observable.named.
+ */
+export type InstrumentationEvent =
+    { kind: "listen", observable: Observable<any>, listeners: number } |
+    { kind: "unlisten", observable: Observable<any>, listeners: number } |
+    { kind: "next", observable: Observable<any>, value: any } |
+    { kind: "done", observable: Observable<any> } |
+    { kind: "fail", observable: Observable<any>, error: any };
+
+export type InstrumentationHook = (event: InstrumentationEvent) => void;
+
+const hooks: InstrumentationHook[] = [];
+
+/**
+ * Registers a hook receiving the events of every Observable. Hooks are meant
+ * for debugging: they run synchronously with each event, so they slow all
+ * Observables down.
+ *
+ * @returns  a Signal removing the hook.
+ */
+export function addInstrumentationHook(hook: InstrumentationHook): Signal {
+    hooks.push(hook);
+    return () => {
+        const index = hooks.indexOf(hook);
+        if (index >= 0) hooks.splice(index, 1);
+    };
+}
+
+/**
+ * @returns  whether any hook is registered. Lets Observables avoid creating
+ *           events nobody listens to.
+ */
+export function isInstrumented(): boolean {
+    return hooks.length > 0;
+}
+
+/**
+ * Reports event to every registered hook. Called by Observable.
+ */
+export function report(event: InstrumentationEvent): void {
+    hooks.slice().forEach(hook => hook(event));
+}
+
+/**
+ * An Observable still holding listeners after LeakDetectorOptions.timeoutMs.
+ */
+export interface Leak {
+    observable: Observable<any>;
+    name?: string;
+    listeners: number;
+    /** time elapsed, in milliseconds, since its first listener attached. */
+    ageMs: number;
+}
+
+export interface LeakDetectorOptions {
+    /**
+     * time after which an Observable still holding listeners is reported.
+     */
+    timeoutMs: number;
+    /** receives each leak once. Defaults to console.warn. */
+    report?: (leak: Leak) => void;
+    /** provides time. Defaults to real timers. */
+    scheduler?: Scheduler;
+}
+
+/**
+ * Starts a development-mode leak detector, reporting Observables which are
+ * neither done nor failed, and still hold listeners, timeoutMs after their
+ * first listener attached. Long-lived Observables (such as intervals) are
+ * reported as well; naming Observables helps telling them apart.
+ *
+ * @returns  a Signal stopping the detector.
+ */
+export function detectLeaks(options: LeakDetectorOptions): Signal {
+    const scheduler = options.scheduler || defaultScheduler;
+    const reportLeak = options.report || ((leak: Leak) => console.warn(
+        `Observable ${leak.name || "(unnamed)"} still has ${leak.listeners} ` +
+        `listener(s) after ${leak.ageMs}ms.`));
+    const tracked = new Map<Observable<any>, {
+        listeners: number,
+        cancel: Signal
+    }>();
+
+    const untrack = (observable: Observable<any>) => {
+        const entry = tracked.get(observable);
+        if (!entry) return;
+        entry.cancel();
+        tracked.delete(observable);
+    };
+
+    const removeHook = addInstrumentationHook(event => {
+        const observable = event.observable;
+        switch (event.kind) {
+            case "listen": {
+                const entry = tracked.get(observable);
+                if (entry) {
+                    entry.listeners = event.listeners;
+                    return;
+                }
+                const since = scheduler.now();
+                tracked.set(observable, {
+                    listeners: event.listeners,
+                    cancel: scheduler.schedule(() => {
+                        const leaked = tracked.get(observable)!;
+                        tracked.delete(observable);
+                        reportLeak({
+                            observable,
+                            name: observable.name,
+                            listeners: leaked.listeners,
+                            ageMs: scheduler.now() - since
+                        });
+                    }, options.timeoutMs)
+                });
+                return;
+            }
+            case "unlisten": {
+                const entry = tracked.get(observable);
+                if (entry) entry.listeners = event.listeners;
+                if (event.listeners === 0) untrack(observable);
+                return;
+            }
+            case "done":
+            case "fail":
+                untrack(observable);
+                return;
+        }
+    });
+
+    return () => {
+        removeHook();
+        tracked.forEach(entry => entry.cancel());
+        tracked.clear();
+    };
+}
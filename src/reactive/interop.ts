@@ -0,0 +1,37 @@
+"use strict";
+
+import { Observer, Unsubscribable } from "./handle";
+
+/**
+ * The key of the interop method returning a Subscribable, shared by reactive
+ * libraries: `Symbol.observable` where it is defined (e.g. by a polyfill),
+ * or "@@observable" otherwise.
+ */
+export const observableSymbol: symbol | string =
+    (typeof Symbol === "function" &&
+        (Symbol as SymbolConstructor & { observable?: symbol }).observable) ||
+    "@@observable";
+
+/**
+ * An object which can be subscribed to by an Observer, as returned by the
+ * `[Symbol.observable]()` method of interop observables.
+ */
+export interface Subscribable<T> {
+    subscribe(observer: Observer<T>): Unsubscribable;
+}
+
+/**
+ * @returns  whether input implements the `[Symbol.observable]()` interop
+ *           method.
+ */
+export function isInteropObservable(input: any): boolean {
+    return !!input && typeof input[observableSymbol] === "function";
+}
+
+/**
+ * @returns  the Subscribable returned by the interop method of input, or
+ *           undefined if input does not implement it.
+ */
+export function interopSubscribable<T>(input: any): Subscribable<T> | undefined {
+    return isInteropObservable(input) ? input[observableSymbol]() : undefined;
+}
@@ -1,60 +1,96 @@
-import { ObservableLike } from "./observable";
+import { ObservableLike, Signal } from "./observable";
 
-export class AsyncIteratorDone {
-    private constructor() {}
-    // Workaround for TypeScript issue #18186. Do not depend on this value.
-    private readonly __internal: "AED" = "AED";
-    public static readonly Instance = new AsyncIteratorDone();
-}
+/**
+ * Strategies for buffering events that are triggered faster than they are
+ * consumed:
+ *  - "unbounded": buffers every event.
+ *  - "bounded": buffers up to `size` events, then fails the iterator with a
+ *    BufferOverflowError.
+ *  - "dropOldest": buffers up to `size` events, then discards the oldest
+ *    buffered event to make room for a new one.
+ *  - "dropNewest": buffers up to `size` events, then discards new events.
+ *  - "keepLatest": buffers only the latest event.
+ */
+export type BufferOptions =
+    { strategy: "unbounded" } |
+    { strategy: "keepLatest" } |
+    { strategy: "bounded" | "dropOldest" | "dropNewest", size: number };
 
-export interface IAsyncIterator<T> {
-    next(): Promise<T | AsyncIteratorDone>;
+/**
+ * The error failing an ObservableAsyncIterator with a "bounded" buffer, when
+ * more than its buffer size of events are pending.
+ */
+export class BufferOverflowError extends Error {
+    constructor(readonly size: number) {
+        super(`Buffer of ${size} events overflowed.`);
+        this.name = "BufferOverflowError";
+    }
 }
 
+// The finished IteratorResult. Its value is never read, so it is shared by
+// iterators of any type.
+const DONE: IteratorResult<any> = { done: true, value: undefined };
+
+function doneResult<T>(): IteratorResult<T> {
+    return DONE;
+}
 
-export class ObservableAsyncIterator<T> implements IAsyncIterator<T> {
+/**
+ * A standard AsyncIterator over the events of an ObservableLike, usable with
+ * `for await`. Events triggered before they are requested through next() are
+ * buffered according to the BufferOptions supplied at construction.
+ */
+export class ObservableAsyncIterator<T> implements AsyncIterableIterator<T> {
     private demanded: {
-        resolve: (value: T | AsyncIteratorDone) => void,
+        resolve: (value: IteratorResult<T>) => void,
         reject: (err: any) => void
     }[] = [];
     private queued: T[] = [];
-    private done: Promise<AsyncIteratorDone> | undefined = undefined;
+    private done: Promise<IteratorResult<T>> | undefined = undefined;
+    private unsubscribe: Signal = () => { };
+    private droppedCount = 0;
 
-    constructor(observable: ObservableLike<T>) {
-        observable.forEach(object => {
+    constructor(
+        observable: ObservableLike<T>,
+        private readonly options: BufferOptions = { strategy: "unbounded" }
+    ) {
+        observable.subscribe(unsubscribe => {
+            this.unsubscribe = unsubscribe;
+        }).forEach(object => {
             const demanded = this.demanded.shift();
             if (demanded) {
-                demanded.resolve(object);
+                demanded.resolve({ done: false, value: object });
             } else {
-                this.queued.push(object);
+                this.enqueue(object);
             }
 
         }).then(() => {
-            // Mark as done
-            this.done = Promise.resolve(AsyncIteratorDone.Instance);
-
-            // If there are any demanded promises, mark them all as done.
-            for (const demanded of this.demanded) {
-                demanded.resolve(AsyncIteratorDone.Instance);
-            }
-            this.demanded = [];
+            this.finish();
 
         }).catch((err) => {
-            // Mark as 'done' (but really, failed)
-            this.done = Promise.reject(err);
-
-            // If there are any demanded promises, mark them all as rejected:
-            for (const demanded of this.demanded) {
-                demanded.reject(err);
-            }
-            this.demanded = [];
+            this.fail(err);
         });
     }
 
-    next(): Promise<T | AsyncIteratorDone> {
+    /**
+     * Number of events discarded so far by the buffering strategy.
+     */
+    get dropped(): number {
+        return this.droppedCount;
+    }
+
+    /**
+     * Number of events currently buffered, waiting to be consumed.
+     */
+    get buffered(): number {
+        return this.queued.length;
+    }
+
+    next(): Promise<IteratorResult<T>> {
         // if an event is queued, it is due to resolve first.
-        const queued = this.queued.shift();
-        if (queued) return Promise.resolve(queued);
+        if (this.queued.length > 0) {
+            return Promise.resolve({ done: false, value: this.queued.shift()! });
+        }
 
         // otherwise, if we are done, resolve now.
         if (this.done) return this.done;
@@ -64,4 +100,79 @@ export class ObservableAsyncIterator<T> implements IAsyncIterator<T> {
             this.demanded.push({resolve, reject});
         });
     }
+
+    /**
+     * Stops iterating, unsubscribing from the underlying Observable. Called
+     * implicitly when exiting a `for await` loop early.
+     */
+    return(): Promise<IteratorResult<T>> {
+        this.queued = [];
+        this.unsubscribe();
+        this.finish();
+        return Promise.resolve(doneResult<T>());
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+
+    private enqueue(object: T): void {
+        const options = this.options;
+        if (options.strategy === "unbounded") {
+            this.queued.push(object);
+            return;
+        }
+        if (options.strategy === "keepLatest") {
+            this.droppedCount += this.queued.length;
+            this.queued = [object];
+            return;
+        }
+        if (this.queued.length < options.size) {
+            this.queued.push(object);
+            return;
+        }
+
+        switch (options.strategy) {
+            case "bounded":
+                this.unsubscribe();
+                this.fail(new BufferOverflowError(options.size));
+                break;
+            case "dropOldest":
+                this.queued.shift();
+                this.queued.push(object);
+                ++this.droppedCount;
+                break;
+            case "dropNewest":
+                ++this.droppedCount;
+                break;
+        }
+    }
+
+    private fail(err: any): void {
+        if (this.done) return;
+
+        // Mark as 'done' (but really, failed)
+        this.done = Promise.reject(err);
+        // Avoid reporting an unhandled rejection if never consumed:
+        this.done.catch(() => { });
+
+        // If there are any demanded promises, mark them all as rejected:
+        for (const demanded of this.demanded) {
+            demanded.reject(err);
+        }
+        this.demanded = [];
+    }
+
+    private finish(): void {
+        if (this.done) return;
+
+        // Mark as done
+        this.done = Promise.resolve(doneResult<T>());
+
+        // If there are any demanded promises, mark them all as done.
+        for (const demanded of this.demanded) {
+            demanded.resolve(doneResult<T>());
+        }
+        this.demanded = [];
+    }
 }
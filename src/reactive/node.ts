@@ -0,0 +1,50 @@
+"use strict";
+
+// Structural types for Node.js interop, so that this library does not depend
+// on Node.js typings.
+
+export type EventName = string | symbol;
+
+/**
+ * The subset of a Node.js EventEmitter used by Observable.fromEvent.
+ */
+export interface EventEmitterLike {
+    on(event: EventName, listener: (...args: any[]) => void): any;
+    removeListener(event: EventName, listener: (...args: any[]) => void): any;
+}
+
+/**
+ * The subset of a Node.js Readable stream used by Observable.fromReadable.
+ */
+export interface ReadableLike extends EventEmitterLike {
+    pause(): any;
+    resume(): any;
+}
+
+/**
+ * The subset of a Node.js Writable stream used by Observable.pipeTo.
+ */
+export interface WritableLike<T> extends EventEmitterLike {
+    write(chunk: T): boolean;
+    end(): any;
+}
+
+export interface FromEventOptions<T> {
+    /** events completing the Observable. */
+    complete?: EventName | EventName[];
+    /**
+     * events failing the Observable with their first argument. Defaults to
+     * "error"; pass [] to leave errors unhandled.
+     */
+    error?: EventName | EventName[];
+    /**
+     * maps the arguments of an event to the triggered value. Defaults to the
+     * first argument.
+     */
+    selector?: (...args: any[]) => T;
+}
+
+export interface PipeOptions {
+    /** whether to end the Writable once done. Defaults to true. */
+    end?: boolean;
+}
@@ -1,33 +1,209 @@
 "use strict";
 
+import { Result, ok, err } from "../polymorphic/result";
+import { AsyncPredicate, everyAsync } from "../predicate";
+import { AbortSignalLike, EventTargetLike, EventTargetOptions } from "./dom";
+import { Observer, SubscriptionHandle, TapObserver } from "./handle";
+import { isInstrumented, report } from "./instrumentation";
+import { Subscribable, interopSubscribable, observableSymbol } from "./interop";
+import { ObservableAsyncIterator } from "./iterator";
+import {
+    EventEmitterLike, EventName, FromEventOptions, PipeOptions, ReadableLike,
+    WritableLike
+} from "./node";
+import { Scheduler, defaultScheduler } from "./scheduler";
+
 export interface ObservableLike<T> {
-    forEach(each: (obj: T) => void): Promise<void>;
+    forEach(each: (obj: T) => void, signal?: AbortSignalLike): Promise<void>;
     map<R>(mapper: (obj: T) => R): ObservableLike<R>;
     flatMap<R>(mapper: (obj: T) => Observable<R>): ObservableLike<R>;
     filter(mapper: (obj: T) => boolean): ObservableLike<T>;
     reduce<R>(
         initialValue: R, accumulate: (residue: R, next: T) => R): Observable<R>;
-    withTimeout(timeoutMs: number): ObservableLike<T>;
-    withConditions(...conditions: ((obj: T) => boolean)[]): ObservableLike<T>;
+    withTimeout(timeoutMs: number, scheduler?: Scheduler): ObservableLike<T>;
+    withConditions(...conditions: AsyncPredicate<T>[]): ObservableLike<T>;
     whileConditions(...condition: ((obj: T) => boolean)[]): ObservableLike<T>;
     subscribe(executor: (
         unsubscribe: Signal,
         failAndUnsubscribe: (err: any) => void
     ) => Listener<T> | void): ObservableLike<T>;
     firstN(n: number): ObservableLike<T>;
-    firstT(timeoutMillis: number): ObservableLike<T>;
+    firstT(timeoutMillis: number, scheduler?: Scheduler): ObservableLike<T>;
 }
 
 export type Listener<T> = (obj: T) => void;
 export type Signal = () => void;
 
+/**
+ * @deprecated  withTimeout no longer fails with this shared Error, but with a
+ *              TimeoutError per timeout: check for `instanceof TimeoutError`
+ *              instead.
+ */
 export const ERROR_TIMEOUT = new Error("Observable timed out.");
 
+/**
+ * A function creating an Observable<R> from an ObservableLike<T>, usable with
+ * Observable.pipe. See "./operators" for the built-in operators.
+ */
+export type OperatorFunction<T, R> = (source: ObservableLike<T>) => Observable<R>;
+
+/**
+ * Anything Observable.from can create an Observable from. Interop
+ * observables of other reactive libraries are typed as Subscribable.
+ */
+export type ObservableInput<T> =
+    ObservableLike<T> | Subscribable<T> | PromiseLike<T> | Iterable<T> |
+    AsyncIterable<T>;
+
+/**
+ * The error failing an Observable returned by withTimeout, once its timeout
+ * elapsed.
+ */
+export class TimeoutError extends Error {
+    constructor(readonly timeoutMs: number) {
+        super(`Observable timed out after ${timeoutMs}ms.`);
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * The error rejecting a Promise returned by an Observable, once the
+ * AbortSignal it was given is aborted.
+ */
+export class AbortError extends Error {
+    constructor() {
+        super("The operation was aborted.");
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * The error rejecting a Promise returned by a terminal operator, such as
+ * first or min, if the Observable is done without a matching event.
+ */
+export class EmptyError extends Error {
+    constructor() {
+        super("Observable is done without a matching event.");
+        this.name = "EmptyError";
+    }
+}
+
+export interface BackoffOptions {
+    /** Delay before the first retry, in milliseconds. */
+    initialDelayMs: number;
+    /** Factor by which the delay grows with each retry. Default: 2. */
+    factor?: number;
+    /** Upper bound of the delay, in milliseconds. Default: no bound. */
+    maxDelayMs?: number;
+    /**
+     * Fraction, between 0 and 1, of each delay which is randomized, to avoid
+     * many clients retrying at once. Default: 0.
+     */
+    jitter?: number;
+    /** Number of retries before failing. Default: no limit. */
+    maxRetries?: number;
+    /** Provides time. Defaults to real timers. */
+    scheduler?: Scheduler;
+    /** Provides random numbers in [0, 1). Defaults to Math.random. */
+    random?: () => number;
+}
+
+export interface PollOptions<T> {
+    /** Stops polling, once done, after a result it accepts. */
+    until?: (result: T) => boolean;
+    /** Number of calls after which polling stops. Default: no limit. */
+    maxAttempts?: number;
+    /** Provides time. Defaults to real timers. */
+    scheduler?: Scheduler;
+}
+
+export interface ThrottleOptions {
+    /** Whether to trigger the first event of each window. Default: true. */
+    leading?: boolean;
+    /** Whether to trigger the last event of each window. Default: false. */
+    trailing?: boolean;
+}
+
+export interface TimeInterval<T> {
+    value: T;
+    /** Time elapsed, in milliseconds, since the previous event. */
+    interval: number;
+}
+
+export interface Timestamped<T> {
+    value: T;
+    /** Time, in milliseconds, at which the event was triggered. */
+    timestamp: number;
+}
+
 // Implementation detail of Observable
 type CallbackItem<T> = {
     listener: Listener<T>, resolve: Signal, reject: (err: any) => void
 };
 
+function eventNames(
+    names: EventName | EventName[] | undefined,
+    defaults: EventName[]
+): EventName[] {
+    if (names === undefined) return defaults;
+    return Array.isArray(names) ? names : [names];
+}
+
+function orDefault<D>(defaults: D[]): D {
+    if (defaults.length === 0) throw new EmptyError();
+    return defaults[0];
+}
+
+function naturalOrder(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function always(): boolean {
+    return true;
+}
+
+function isObservableLike(value: any): value is ObservableLike<any> {
+    return typeof value.subscribe === "function" &&
+        typeof value.forEach === "function";
+}
+
+function isSubscribable(value: any): value is Subscribable<any> {
+    return typeof value.subscribe === "function";
+}
+
+function isIterable(value: any): value is Iterable<any> {
+    return typeof value[Symbol.iterator] === "function";
+}
+
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+    return typeof value[Symbol.asyncIterator] === "function";
+}
+
+// The object returned by the interop method of Observable. Its subscribe
+// accepts an Observer, or its callbacks as separate functions.
+function toSubscribable<T>(observable: Observable<T>): Subscribable<T> {
+    const subscribable: Subscribable<T> = {
+        subscribe(
+            observerOrNext?: Observer<T> | ((value: T) => void),
+            error?: (err: any) => void,
+            complete?: () => void
+        ): SubscriptionHandle {
+            const observer = typeof observerOrNext === "function" ?
+                { next: observerOrNext, error, complete } :
+                observerOrNext || {};
+            return observable.subscribe(observer);
+        }
+    };
+    Object.defineProperty(subscribable, observableSymbol, {
+        value: () => subscribable
+    });
+    return subscribable;
+}
+
+function isPromiseLike(value: any): value is PromiseLike<any> {
+    return !!value && typeof value.then === "function";
+}
+
 /**
  * Provides access to a stream of events that could be listened to and operated
  * on through a series of monad interfaces.
@@ -39,13 +215,23 @@ export class Observable<T> implements ObservableLike<T> {
     //     ... call trigger(obj) when needed
     //     ... call done() once complete
     //     ... call fail(err) with error if a failed condition happens
+    //     ... optionally return a teardown function releasing resources
     // })
+    //
+    // The teardown function runs exactly once: when the Observable is done,
+    // when it fails, or when its last listener is removed (e.g. through an
+    // unsubscribe). In the latter case, the Observable is considered done.
+    // Subjects are the exception: they remain active when they lose all their
+    // listeners, as their events are triggered externally.
     constructor(
         executor: (trigger: (obj: T) => void,
                    done: Signal,
-                   fail: (err: any) => void) => void
+                   fail: (err: any) => void) => Signal | void
     ) {
         const trigger = (obj: T) => {
+            if (this._callbacks && isInstrumented()) {
+                report({ kind: "next", observable: this, value: obj });
+            }
             // we choose to silently no-op if trigger happens after done
             this._callbacks && this._callbacks.forEach((cb, idx) => {
                 if (!cb) return;
@@ -54,349 +240,2273 @@ export class Observable<T> implements ObservableLike<T> {
                     cb.listener(obj);
                 } catch (e) {
                     cb.reject(e);
-                    if (this._callbacks) {
-                        this._callbacks[idx] = undefined;
-                    }
+                    this._remove(cb);
                 }
             });
         };
 
         const done = () => {
             // we choose to silently no-op if done is called multiple times
-            this._callbacks && this._callbacks.forEach(d => d && d.resolve());
+            const callbacks = this._callbacks;
+            if (callbacks && isInstrumented()) {
+                report({ kind: "done", observable: this });
+            }
+            // finish before resolving, so that listeners detaching while
+            // being resolved are ignored.
             this._callbacks = undefined;
+            callbacks && callbacks.forEach(d => d && d.resolve());
+            this._dispose();
         };
 
         const fail = (err: any) => {
-            this._callbacks && this._callbacks.forEach(d => d && d.reject(err));
+            // remember the failure, to report it to late listeners.
+            const callbacks = this._callbacks;
+            if (callbacks) this._failure = { error: err };
+            if (callbacks && isInstrumented()) {
+                report({ kind: "fail", observable: this, error: err });
+            }
             this._callbacks = undefined;
+            callbacks && callbacks.forEach(d => d && d.reject(err));
+            this._dispose();
         };
 
-        executor(trigger, done, fail);
+        const teardown = executor(trigger, done, fail);
+        if (teardown) {
+            // the executor might have finished synchronously.
+            if (this.isDone()) teardown();
+            else this._teardown = teardown;
+        }
     }
 
-    forEach(each: (obj: T) => void): Promise<void> {
-        if (this.isDone()) {
-            // signal `done` if isDone already.
-            return Promise.resolve();
-        }
+    /**
+     * @param signal  once aborted, detaches `each` from this Observable and
+     *                rejects with an AbortError.
+     */
+    forEach(each: (obj: T) => void, signal?: AbortSignalLike): Promise<void> {
         return new Promise<void>((resolve, reject) => {
-            this._callbacks!.push({ listener: each, resolve, reject });
+            // signals `done` immediately if isDone already.
+            this._listenAbortable(each, resolve, reject, signal);
         });
     }
     map<R>(mapper: (obj: T) => R): Observable<R> {
         return new Observable<R>((trigger, done, fail) => {
-            this.forEach(obj => trigger(mapper(obj)));
+            return this._listen(obj => trigger(mapper(obj)), done, fail);
         });
     }
-    filter(predicate: (obj: T) => boolean): Observable<T> {
+    /**
+     * Returns a new Observable triggering the events of this Observable which
+     * predicate accepts.
+     *
+     * predicate might decide asynchronously, in which case events are still
+     * triggered in order, and the returned Observable is done once all
+     * pending decisions are made.
+     */
+    filter(predicate: AsyncPredicate<T>): Observable<T> {
         return new Observable<T>((trigger, done, fail) => {
-            this.forEach(obj => {
-                if (predicate(obj)) trigger(obj);
-            }).then(done).catch(fail);
+            // once a decision is asynchronous, all later ones are chained
+            // after it, to preserve the order of events.
+            let chain: Promise<void> | undefined;
+            return this._listen(obj => {
+                const accepted = predicate(obj);
+                if (!chain && !isPromiseLike(accepted)) {
+                    if (accepted) trigger(obj);
+                    return;
+                }
+                chain = (chain || Promise.resolve())
+                    .then(() => accepted)
+                    .then(acceptedNow => {
+                        if (acceptedNow) trigger(obj);
+                    });
+                chain.catch(fail);
+            }, () => {
+                if (chain) chain.then(done, fail);
+                else done();
+            }, fail);
         });
     }
     filterWhere<R extends T>(predicate: (obj: T) => obj is R): Observable<R> {
         return new Observable<R>((trigger, done, fail) => {
-            this.forEach(obj => {
+            return this._listen(obj => {
                 if (predicate(obj)) trigger(obj);
-            }).then(done).catch(fail);
+            }, done, fail);
         });
     }
+    /**
+     * Maps each event to an Observable, triggering on events of all mapped
+     * Observables concurrently.
+     *
+     * The returned Observable is done once this Observable and every mapped
+     * Observable are done, and fails as soon as any of them fails.
+     */
     flatMap<R>(mapper: (obj: T) => Observable<R>): Observable<R> {
-        return new Observable<R>((trigger, done, fail) => {
-            // TODO: flatMap currently never terminates; unclear which
-            // `done` to take seriously or how do we know when all is done
-            this.forEach(obj => mapper(obj).forEach(trigger));
-        });
+        return this.mergeMap(mapper);
     }
-    reduce<R>(initialValue: R, reducer: (v1: R, v2: T) => R): Observable<R> {
+
+    /**
+     * Like flatMap, but listens to at most `concurrent` mapped Observables at
+     * a time. Further events of this Observable are buffered, and mapped in
+     * order as earlier mapped Observables complete.
+     *
+     * @param concurrent  maximum number of mapped Observables listened to at
+     *                    once. Defaults to no limit.
+     */
+    mergeMap<R>(
+        mapper: (obj: T) => Observable<R>,
+        concurrent = Infinity
+    ): Observable<R> {
         return new Observable<R>((trigger, done, fail) => {
-            trigger(initialValue);
-            this.forEach(obj => {
-                initialValue = reducer(initialValue, obj);
-                trigger(initialValue);
-            }).then(done).catch(fail);
-        });
-    }
-    concat(other: Observable<T>): Observable<T> {
-        return new Observable<T>((trigger, done, fail) => {
-            this.forEach(trigger)
-                .then(() => other.forEach(trigger))
-                .then(done)
-                .catch(fail);
-        });
-    }
-    all(predicate: (t: T) => boolean): Promise<boolean> {
-        return new Promise<boolean>((resolve, reject) => {
-            if (this.isDone()) {
-                resolve(true);
-                return;
-            }
-            let resolved = false;
-            this.subscribe(unsubscribe => {
-                return obj => {
-                    if (!predicate(obj)) {
-                        unsubscribe();
-                        resolved = true;
-                        resolve(false);
-                    }
-                };
-            }).then(() => {
-                if (!resolved) { resolve(true); }
-            }).catch(reject);
-        });
-    }
-    any(predicate: (t: T) => boolean): Promise<boolean> {
-        return new Promise<boolean>((resolve, reject) => {
-            if (this.isDone()) {
-                resolve(false);
-                return;
-            }
-            let resolved = false;
-            this.subscribe(unsubscribe => {
-                return obj => {
-                    if (predicate(obj)) {
-                        unsubscribe();
-                        resolved = true;
-                        resolve(true);
-                    }
-                };
-            }).then(() => {
-                if (!resolved) { resolve(false); }
-            }).catch(reject);
+            const buffered: T[] = [];
+            const innerDetaches = new Set<Signal>();
+            let active = 0;
+            let outerDone = false;
+            let draining = false;
+
+            const listenInner = (obj: T) => {
+                let inner: Observable<R>;
+                try {
+                    inner = mapper(obj);
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+
+                ++active;
+                let finished = false;
+                let detach: Signal | undefined;
+                detach = inner._listen(trigger, () => {
+                    finished = true;
+                    if (detach) innerDetaches.delete(detach);
+                    --active;
+                    drain();
+                }, fail);
+                if (!finished) innerDetaches.add(detach);
+            };
+
+            const drain = () => {
+                // inner Observables could complete synchronously, in which
+                // case the loop below takes care of the next ones.
+                if (draining) return;
+                draining = true;
+                while (active < concurrent && buffered.length > 0) {
+                    listenInner(buffered.shift()!);
+                }
+                draining = false;
+
+                if (outerDone && active === 0 && buffered.length === 0) {
+                    done();
+                }
+            };
+
+            const detachOuter = this._listen(obj => {
+                buffered.push(obj);
+                drain();
+            }, () => {
+                outerDone = true;
+                drain();
+            }, fail);
+
+            return () => {
+                detachOuter();
+                innerDetaches.forEach(detach => detach());
+                innerDetaches.clear();
+            };
         });
     }
 
     /**
-     * Returns a Promise which resolves only when the Observable has completed.
-     * @param action  specifies the action to be taken once this observable has
-     *                completed.
+     * Like flatMap, but maps events sequentially: each mapped Observable is
+     * listened to only once the previous mapped Observable is done.
      */
-    then<R>(action: () => R): Promise<R> {
-        if (this.isDone()) return Promise.resolve(action());
-        else {
-            return new Promise((resolve, reject) => {
-                // isDone() is true iff _callbacks is undefined
-                this._callbacks!.push({
-                    listener: () => { },
-                    resolve: () => resolve(action()),
-                    reject
-                });
-            });
-        }
+    concatMap<R>(mapper: (obj: T) => Observable<R>): Observable<R> {
+        return this.mergeMap(mapper, 1);
     }
 
     /**
-     * @returns  an array of all values observed since this subscription
+     * Like flatMap, but only listens to the most recently mapped Observable.
+     * Each event of this Observable unsubscribes from the previously mapped
+     * Observable.
      */
-    collect(): Promise<T[]> {
-        if (this.isDone()) return Promise.resolve([]);
+    switchMap<R>(mapper: (obj: T) => Observable<R>): Observable<R> {
+        return new Observable<R>((trigger, done, fail) => {
+            let detachInner: Signal | undefined;
+            let innerActive = false;
+            let outerDone = false;
 
-        const c: T[] = [];
-        return this.forEach(t => c.push(t)).then(() => c);
+            const detachOuter = this._listen(obj => {
+                if (detachInner) detachInner();
+                innerActive = true;
+                detachInner = mapper(obj)._listen(trigger, () => {
+                    innerActive = false;
+                    if (outerDone) done();
+                }, fail);
+            }, () => {
+                outerDone = true;
+                if (!innerActive) done();
+            }, fail);
+
+            return () => {
+                detachOuter();
+                if (detachInner) detachInner();
+            };
+        });
     }
 
     /**
-     * @param n  number of events to skip
-     * @returns  a new observable which triggers on each event after the first n.
+     * Like flatMap, but ignores events of this Observable while the
+     * previously mapped Observable is still ongoing.
      */
-    skipN(n: number): Observable<T> {
-        return new Observable<T>((trigger, done, fail) => {
-            this.forEach(obj => {
-                if (n <= 0) trigger(obj);
-                else n--;
-            }).then(done).catch(fail);
+    exhaustMap<R>(mapper: (obj: T) => Observable<R>): Observable<R> {
+        return new Observable<R>((trigger, done, fail) => {
+            let detachInner: Signal | undefined;
+            let innerActive = false;
+            let outerDone = false;
+
+            const detachOuter = this._listen(obj => {
+                if (innerActive) return;
+                innerActive = true;
+                detachInner = mapper(obj)._listen(trigger, () => {
+                    innerActive = false;
+                    if (outerDone) done();
+                }, fail);
+            }, () => {
+                outerDone = true;
+                if (!innerActive) done();
+            }, fail);
+
+            return () => {
+                detachOuter();
+                if (detachInner) detachInner();
+            };
         });
     }
 
     /**
-     * Returns a new observable which triggers on each event after
-     * milliseconds
-     * @param t  interval to skip before events are issued
+     * Returns a new Observable triggering each intermediate value of reducer,
+     * applied to every event of this Observable. Without initialValue, the
+     * first event is the initial value, and is triggered as-is.
      */
-    skipT(t: number): Observable<T> {
-        return new Observable<T>((trigger, done, fail) => {
-            setTimeout(() => {
-                this.forEach(trigger).then(done).catch(fail);
-            }, t);
+    scan(reducer: (v1: T, v2: T) => T): Observable<T>;
+    scan<R>(initialValue: R, reducer: (v1: R, v2: T) => R): Observable<R>;
+    scan(...args: any[]): Observable<any> {
+        const reducer: (v1: any, v2: T) => any = args[args.length - 1];
+
+        return new Observable<any>((trigger, done, fail) => {
+            let acc: { value: any } | undefined =
+                args.length > 1 ? { value: args[0] } : undefined;
+            return this._listen(obj => {
+                acc = { value: acc ? reducer(acc.value, obj) : obj };
+                trigger(acc.value);
+            }, done, fail);
         });
     }
 
     /**
-     * @returns  whether this Observable has copmleted.
+     * Returns a new Observable triggering only the final value of reducer,
+     * applied to every event of this Observable, once it is done. Without
+     * initialValue, the first event is the initial value, and the returned
+     * Observable fails with an EmptyError if there are no events.
      */
-    isDone(): boolean {
-        return this._callbacks === undefined;
+    reduce(reducer: (v1: T, v2: T) => T): Observable<T>;
+    reduce<R>(initialValue: R, reducer: (v1: R, v2: T) => R): Observable<R>;
+    reduce(...args: any[]): Observable<any> {
+        const reducer: (v1: any, v2: T) => any = args[args.length - 1];
+
+        return new Observable<any>((trigger, done, fail) => {
+            let acc: { value: any } | undefined =
+                args.length > 1 ? { value: args[0] } : undefined;
+            return this._listen(obj => {
+                acc = { value: acc ? reducer(acc.value, obj) : obj };
+            }, () => {
+                if (!acc) {
+                    fail(new EmptyError());
+                    return;
+                }
+                trigger(acc.value);
+                done();
+            }, fail);
+        });
     }
 
     /**
-     * Returns a copy of this Observable that is a subscription.
-     * A subscription is an observable that can be 'unsubscribed', which no
-     * longer causes it to trigger events on its parent observable.
+     * Returns a new Observable triggering buffers of `size` events. A new
+     * buffer is started every `every` events. Once this Observable is done,
+     * incomplete buffers are triggered.
      *
-     * @param executor  Supplied by the user and called immediately, executor
-     *                  allows the subscriber to unsubscribe or fail a given
-     *                  subscription. Optionally returns a listener functor to
-     *                  trigger on each event.
+     * @param size  number of events in each buffer.
+     * @param every  number of events between the start of two buffers.
+     *               Defaults to size.
      */
-    subscribe(executor: (
-        unsubscribe: Signal,
-        failAndUnsubscribe: (err: any) => void
-    ) => Listener<T> | void): Observable<T> {
-
-        if (this.isDone) {
-            return Observable.empty();
-        }
-
-        return new Observable<T>((trigger, done, fail) => {
-            const index = this._callbacks!.length;
-            const unsubscribeOnly = () => {
-                if (this._callbacks && this._callbacks[index]) {
-                    this._callbacks[index] = undefined;
-                    return true;  // unsubscribed
+    bufferCount(size: number, every = size): Observable<T[]> {
+        return new Observable<T[]>((trigger, done, fail) => {
+            let buffers: T[][] = [];
+            let count = 0;
+            return this._listen(obj => {
+                if (count++ % every === 0) buffers.push([]);
+                buffers.forEach(buffer => buffer.push(obj));
+                if (buffers.length > 0 && buffers[0].length === size) {
+                    trigger(buffers.shift()!);
                 }
-                return false;  // already unsubscribed
-            };
-            const unsubscribeDone = () => {
-                if (unsubscribeOnly()) done();
-            };
-            const unsubscribeFail = (err: any) => {
-                if (unsubscribeOnly()) fail(err);
-            };
+            }, () => {
+                buffers.forEach(buffer => trigger(buffer));
+                buffers = [];
+                done();
+            }, fail);
+        });
+    }
 
-            const preTrigger = (obj: T) => {
-                trigger(obj);
-                if (listener) {
-                    listener(obj);
-                }
+    /**
+     * Returns a new Observable triggering, every periodMs, the events of
+     * this Observable during that period. Empty buffers are not triggered.
+     *
+     * @param periodMs  length of each period.
+     * @param maxSize  if set, buffers are triggered as soon as they reach
+     *                 maxSize events.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    bufferTime(
+        periodMs: number,
+        maxSize = Infinity,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T[]> {
+        return new Observable<T[]>((trigger, done, fail) => {
+            let buffer: T[] = [];
+            const flush = () => {
+                if (buffer.length === 0) return;
+                const flushed = buffer;
+                buffer = [];
+                trigger(flushed);
             };
 
-            this._callbacks!.push({
-                listener: preTrigger,
-                resolve: unsubscribeDone,
-                reject: unsubscribeFail
-            });
+            const cancel = scheduler.scheduleInterval(flush, periodMs);
+            const detach = this._listen(obj => {
+                buffer.push(obj);
+                if (buffer.length >= maxSize) flush();
+            }, () => {
+                flush();
+                done();
+            }, fail);
 
-            const listener = executor(unsubscribeDone, unsubscribeFail);
+            return () => {
+                cancel();
+                detach();
+            };
         });
     }
 
     /**
-     * Returns a new Observable whose lifetime is at most timeoutMs, failing
-     * if the underlying Observable has a longer lifetime.
-     *
-     * If this Observable is done before timeoutMs, the returned Observable
-     * will be done. If this Observable fails before timeoutMs, the returned
-     * Observable will fail. If this Observable is still ongoing after
-     * timeoutMs, the returned Observable will fail.
-     *
-     * @param timeoutMs amount of time before an ongoing Observable is ended.
+     * Returns a new Observable triggering, on each event of notifier, the
+     * events of this Observable since the previous buffer. Empty buffers are
+     * not triggered.
      */
-    withTimeout(timeoutMs: number): Observable<T> {
-        return this.subscribe((unsubscribe, fail) => {
-            setTimeout(() => {
-                fail(ERROR_TIMEOUT);
-            }, timeoutMs);
+    bufferWhen(notifier: Observable<any>): Observable<T[]> {
+        return new Observable<T[]>((trigger, done, fail) => {
+            let buffer: T[] = [];
+            const flush = () => {
+                if (buffer.length === 0) return;
+                const flushed = buffer;
+                buffer = [];
+                trigger(flushed);
+            };
+
+            const detachNotifier = notifier._listen(flush, () => { }, fail);
+            const detach = this._listen(obj => buffer.push(obj), () => {
+                flush();
+                done();
+            }, fail);
+
+            return () => {
+                detachNotifier();
+                detach();
+            };
         });
     }
 
     /**
-     * @param conditions Predicates for whether obj should be included
-     * @returns a new Observable that triggers only on objects in this
-     * Observable where each condition of conditions passed applies.
+     * Like bufferCount, but triggers each window as an Observable as soon as
+     * it opens, instead of buffering its events.
      */
-    withConditions(...conditions: ((obj: T) => boolean)[]): Observable<T> {
-        return new Observable((trigger, done, fail) => {
-            this.forEach((obj: T) => {
-                if (conditions.every(c => c(obj))) {
-                    trigger(obj);
+    windowCount(size: number, every = size): Observable<Observable<T>> {
+        return new Observable<Observable<T>>((trigger, done, fail) => {
+            let windows: { subject: Subject<T>, count: number }[] = [];
+            let count = 0;
+            return this._listen(obj => {
+                if (count++ % every === 0) {
+                    const subject = new Subject<T>();
+                    windows.push({ subject, count: 0 });
+                    trigger(subject);
+                }
+                windows.forEach(w => {
+                    w.subject.next(obj);
+                    ++w.count;
+                });
+                if (windows.length > 0 && windows[0].count === size) {
+                    windows.shift()!.subject.complete();
                 }
-            }).then(done).catch(fail);
+            }, () => {
+                windows.forEach(w => w.subject.complete());
+                windows = [];
+                done();
+            }, err => {
+                windows.forEach(w => w.subject.error(err));
+                windows = [];
+                fail(err);
+            });
         });
     }
 
     /**
-     * @param conditions Predicates for whether the Observable should be
-     *                   included. If any of these return false, the Observable
-     *                   will signal an end.
-     * @returns a new Observable that triggers all objects in this Observable
-     * until one of the condition predicates evaluates to `false` for a given
-     * event.
+     * Like bufferTime, but triggers each window as an Observable as soon as
+     * it opens, instead of buffering its events. A window opens with the
+     * first event of each period.
      */
-    whileConditions(...conditions: ((obj: T) => boolean)[]): Observable<T> {
-        return this.subscribe((unsubscribe, fail) => {
-            return (obj: T) => {
-                if (!conditions.every(c => c(obj))) {
-                    unsubscribe();
+    windowTime(
+        periodMs: number,
+        maxSize = Infinity,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<Observable<T>> {
+        return new Observable<Observable<T>>((trigger, done, fail) => {
+            let current: { subject: Subject<T>, count: number } | undefined;
+            const close = () => {
+                if (current) current.subject.complete();
+                current = undefined;
+            };
+
+            const cancel = scheduler.scheduleInterval(close, periodMs);
+            const detach = this._listen(obj => {
+                if (!current) {
+                    current = { subject: new Subject<T>(), count: 0 };
+                    trigger(current.subject);
                 }
+                current.subject.next(obj);
+                if (++current.count >= maxSize) close();
+            }, () => {
+                close();
+                done();
+            }, err => {
+                if (current) current.subject.error(err);
+                current = undefined;
+                fail(err);
+            });
+
+            return () => {
+                cancel();
+                detach();
             };
         });
     }
 
     /**
-     * Returns a new Observable based on this, with at most n events before
-     * terminating successfully.
-     * @param n The maximum number of events to include in this Observable.
+     * Like bufferWhen, but triggers each window as an Observable as soon as
+     * it opens, instead of buffering its events. A window opens with the
+     * first event after the previous one closed.
      */
-    firstN(n: number): Observable<T> {
-        if (n <= 0) return Observable.empty();
+    windowWhen(notifier: Observable<any>): Observable<Observable<T>> {
+        return new Observable<Observable<T>>((trigger, done, fail) => {
+            let current: Subject<T> | undefined;
+            const close = () => {
+                if (current) current.complete();
+                current = undefined;
+            };
 
-        return this.subscribe(unsubscribe => {
-            return (obj: T) => {
-                if (n-- === 0) {
-                    unsubscribe();
+            const detachNotifier = notifier._listen(close, () => { }, fail);
+            const detach = this._listen(obj => {
+                if (!current) {
+                    current = new Subject<T>();
+                    trigger(current);
                 }
+                current.next(obj);
+            }, () => {
+                close();
+                done();
+            }, err => {
+                if (current) current.error(err);
+                current = undefined;
+                fail(err);
+            });
+
+            return () => {
+                detachNotifier();
+                detach();
             };
         });
     }
 
     /**
-     * Returns a new Observable whose lifetime is at most timeoutMs.
-     *
-     * If this Observable is done before timeoutMs, the returned Observable
-     * will be done. If this Observable fails before timeoutMs, the returned
-     * Observable will fail. If this Observable is still ongoing after
-     * timeoutMs, the returned Observable will be done.
-     *
-     * This is similar to withTimeout, but succeeds if the timeout elapses and
-     * the underlying Observable has not yet completed.
-     *
-     * @param timeoutMs amount of time before an ongoing Observable is ended.
+     * Returns a new Observable triggering each event of this Observable
+     * along with the previous event. The first event only triggers along
+     * with the second.
      */
-    firstT(timeoutMs: number): Observable<T> {
-        return this.subscribe(unsubscribe => {
-            setTimeout(() => {
-                unsubscribe();
-            }, timeoutMs);
+    pairwise(): Observable<[T, T]> {
+        return new Observable<[T, T]>((trigger, done, fail) => {
+            let previous: { value: T } | undefined;
+            return this._listen(obj => {
+                if (previous) trigger([previous.value, obj]);
+                previous = { value: obj };
+            }, done, fail);
         });
     }
 
-    private _callbacks?: (CallbackItem<T> | undefined)[] = [];
-
-    // static manipulation functions
-    static merge<T>(a: Observable<T>, b: Observable<T>): Observable<T> {
-        return new Observable((trigger, done, fail) => {
-            Promise.all([
-                a.forEach(trigger),
-                b.forEach(trigger)
-            ]).then(done).catch(fail);
-        });
+    /**
+     * Returns a new Observable triggering a GroupedObservable for each
+     * distinct key of the events of this Observable, as soon as an event
+     * with that key is triggered. Each GroupedObservable triggers the events
+     * with its key, and is done (or failed) once this Observable is.
+     *
+     * @param keyFn  maps each event to its key.
+     */
+    groupBy<K>(keyFn: (obj: T) => K): Observable<GroupedObservable<K, T>> {
+        return new Observable<GroupedObservable<K, T>>((trigger, done, fail) => {
+            const groups = new Map<K, CallbackItem<T>>();
+            const open = (key: K) => {
+                let group: CallbackItem<T> | undefined;
+                const grouped = new GroupedObservable<K, T>(key, (t, d, f) => {
+                    group = { listener: t, resolve: d, reject: f };
+                });
+                groups.set(key, group!);
+                trigger(grouped);
+                return group!;
+            };
+
+            return this._listen(obj => {
+                const key = keyFn(obj);
+                const group = groups.get(key) || open(key);
+                group.listener(obj);
+            }, () => {
+                groups.forEach(group => group.resolve());
+                done();
+            }, err => {
+                groups.forEach(group => group.reject(err));
+                fail(err);
+            });
+        });
+    }
+    /**
+     * Returns a new Observable triggering the events of this Observable, then
+     * of each of others in turn, once the previous one is done.
+     */
+    concat(...others: Observable<T>[]): Observable<T> {
+        return Observable.concat(this, ...others);
+    }
+
+    /**
+     * Returns a new Observable triggering, on each event of this Observable,
+     * the event along with the latest event of each of others. Events of
+     * this Observable are ignored until every one of others triggered.
+     */
+    withLatestFrom<A>(a: Observable<A>): Observable<[T, A]>;
+    withLatestFrom<A, B>(
+        a: Observable<A>, b: Observable<B>): Observable<[T, A, B]>;
+    withLatestFrom<A, B, C>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>
+    ): Observable<[T, A, B, C]>;
+    withLatestFrom(...others: Observable<any>[]): Observable<any[]>;
+    withLatestFrom(...others: Observable<any>[]): Observable<any> {
+        return new Observable<any[]>((trigger, done, fail) => {
+            const latest: any[] = others.map(() => undefined);
+            const hasLatest = others.map(() => false);
+
+            const detachOthers = others.map((other, i) => other._listen(obj => {
+                latest[i] = obj;
+                hasLatest[i] = true;
+            }, () => { }, fail));
+            const detach = this._listen(obj => {
+                if (hasLatest.every(has => has)) trigger([obj, ...latest]);
+            }, done, fail);
+
+            return () => {
+                detach();
+                detachOthers.forEach(detachOther => detachOther());
+            };
+        });
+    }
+    /**
+     * @param signal  once aborted, unsubscribes and rejects with an
+     *                AbortError.
+     */
+    all(predicate: (t: T) => boolean, signal?: AbortSignalLike): Promise<boolean> {
+        return this.any(t => !predicate(t), signal).then(found => !found);
+    }
+    /**
+     * @param signal  once aborted, unsubscribes and rejects with an
+     *                AbortError.
+     */
+    any(predicate: (t: T) => boolean, signal?: AbortSignalLike): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            this.subscribe(unsubscribe => {
+                return obj => {
+                    if (predicate(obj)) {
+                        resolve(true);
+                        unsubscribe();
+                    }
+                };
+            }).forEach(() => { }, signal).then(() => resolve(false), reject);
+        });
+    }
+
+    /**
+     * Returns a Promise which resolves only when the Observable has completed.
+     * Like Promise.then, this makes Observables awaitable.
+     * @param action  specifies the action to be taken once this observable has
+     *                completed.
+     * @param onRejected  called if this Observable fails.
+     */
+    then<R, E = never>(
+        action: () => R | PromiseLike<R>,
+        onRejected?: (err: any) => E | PromiseLike<E>
+    ): Promise<R | E> {
+        const promise = new Promise<R>((resolve, reject) => {
+            this._listen(() => { }, () => resolve(action()), reject);
+        });
+        return onRejected ? promise.then(undefined, onRejected) : promise;
+    }
+
+    /**
+     * Returns a Promise resolving once this Observable is done, and rejecting
+     * if it fails.
+     * @param signal  once aborted, rejects with an AbortError.
+     */
+    whenDone(signal?: AbortSignalLike): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this._listenAbortable(() => { }, resolve, reject, signal);
+        });
+    }
+
+    /**
+     * @param signal  once aborted, rejects with an AbortError.
+     * @returns  an array of all values observed since this subscription
+     */
+    collect(signal?: AbortSignalLike): Promise<T[]> {
+        const c: T[] = [];
+        return this.forEach(t => c.push(t), signal).then(() => c);
+    }
+
+    /**
+     * @returns  the first event accepted by predicate (if any), unsubscribing
+     *           once found. Rejects with an EmptyError if this Observable is
+     *           done without such an event, unless defaultValue is supplied.
+     */
+    first(predicate?: (t: T) => boolean): Promise<T>;
+    first<D>(
+        predicate: ((t: T) => boolean) | undefined,
+        defaultValue: D
+    ): Promise<T | D>;
+    first<D>(
+        predicate: (t: T) => boolean = always,
+        ...defaultValue: D[]
+    ): Promise<T | D> {
+        return this._find(predicate).then(found =>
+            found ? found.value : orDefault(defaultValue));
+    }
+
+    /**
+     * @returns  the last event accepted by predicate (if any). Rejects with an
+     *           EmptyError if this Observable is done without such an event,
+     *           unless defaultValue is supplied.
+     */
+    last(predicate?: (t: T) => boolean): Promise<T>;
+    last<D>(
+        predicate: ((t: T) => boolean) | undefined,
+        defaultValue: D
+    ): Promise<T | D>;
+    last<D>(
+        predicate: (t: T) => boolean = always,
+        ...defaultValue: D[]
+    ): Promise<T | D> {
+        let found: { value: T } | undefined;
+        return this.forEach(t => {
+            if (predicate(t)) found = { value: t };
+        }).then(() => found ? found.value : orDefault(defaultValue));
+    }
+
+    /**
+     * @returns  the first event accepted by predicate, or undefined if there
+     *           is none. Unsubscribes once found.
+     */
+    find(predicate: (t: T) => boolean): Promise<T | undefined> {
+        return this._find(predicate).then(found => found && found.value);
+    }
+
+    /**
+     * @returns  the index of the first event accepted by predicate, or -1 if
+     *           there is none. Unsubscribes once found.
+     */
+    findIndex(predicate: (t: T) => boolean): Promise<number> {
+        return this._find(predicate).then(found => found ? found.index : -1);
+    }
+
+    /**
+     * @returns  the number of events accepted by predicate (by default, of all
+     *           events).
+     */
+    count(predicate: (t: T) => boolean = always): Promise<number> {
+        let n = 0;
+        return this.forEach(t => {
+            if (predicate(t)) ++n;
+        }).then(() => n);
+    }
+
+    /**
+     * @param comparator  orders events, defaulting to the `<` and `>`
+     *                    operators.
+     * @returns  the smallest event, the first of them in case of ties.
+     *           Rejects with an EmptyError if there are no events.
+     */
+    min(comparator: (a: T, b: T) => number = naturalOrder): Promise<T> {
+        return this._best((candidate, best) => comparator(candidate, best) < 0);
+    }
+
+    /**
+     * @param comparator  orders events, defaulting to the `<` and `>`
+     *                    operators.
+     * @returns  the largest event, the first of them in case of ties.
+     *           Rejects with an EmptyError if there are no events.
+     */
+    max(comparator: (a: T, b: T) => number = naturalOrder): Promise<T> {
+        return this._best((candidate, best) => comparator(candidate, best) > 0);
+    }
+
+    /**
+     * @returns  the sum of all events, 0 if there are none.
+     */
+    sum(this: Observable<number>): Promise<number> {
+        let total = 0;
+        return this.forEach(n => {
+            total += n;
+        }).then(() => total);
+    }
+
+    /**
+     * @returns  a Map of all events by key. Later events replace earlier ones
+     *           with the same key.
+     */
+    toMap<K>(keyFn: (t: T) => K): Promise<Map<K, T>> {
+        const map = new Map<K, T>();
+        return this.forEach(t => map.set(keyFn(t), t)).then(() => map);
+    }
+
+    /**
+     * @returns  a Set of all distinct events.
+     */
+    toSet(): Promise<Set<T>> {
+        const set = new Set<T>();
+        return this.forEach(t => set.add(t)).then(() => set);
+    }
+
+    /**
+     * @param n  number of events to skip
+     * @returns  a new observable which triggers on each event after the first n.
+     */
+    skipN(n: number): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            return this._listen(obj => {
+                if (n <= 0) trigger(obj);
+                else n--;
+            }, done, fail);
+        });
+    }
+
+    /**
+     * Returns a new observable which triggers on each event after
+     * milliseconds
+     * @param t  interval to skip before events are issued
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    skipT(t: number, scheduler: Scheduler = defaultScheduler): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let detach: Signal | undefined;
+            const cancel = scheduler.schedule(() => {
+                detach = this._listen(trigger, done, fail);
+            }, t);
+            return () => {
+                cancel();
+                if (detach) detach();
+            };
+        });
+    }
+
+    /**
+     * @param n  number of events to skip
+     * @returns  a new observable which triggers on each event except the last
+     *           n, holding n events back until it knows they are not last.
+     */
+    skipLast(n: number): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const held: T[] = [];
+            return this._listen(obj => {
+                held.push(obj);
+                if (held.length > n) trigger(held.shift()!);
+            }, done, fail);
+        });
+    }
+
+    /**
+     * Returns a new Observable skipping the events of this Observable while
+     * predicate accepts them, then triggering every later event.
+     */
+    skipWhile(predicate: (obj: T) => boolean): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let skipping = true;
+            return this._listen(obj => {
+                skipping = skipping && predicate(obj);
+                if (!skipping) trigger(obj);
+            }, done, fail);
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the last n events of this
+     * Observable, once it is done.
+     */
+    takeLast(n: number): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const last: T[] = [];
+            return this._listen(obj => {
+                last.push(obj);
+                if (last.length > n) last.shift();
+            }, () => {
+                last.forEach(trigger);
+                done();
+            }, fail);
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the events of this Observable while
+     * predicate accepts them, and done (unsubscribing) on the first event it
+     * rejects.
+     *
+     * @param inclusive  whether to trigger the rejected event before being
+     *                   done.
+     */
+    takeWhile(
+        predicate: (obj: T) => boolean,
+        inclusive = false
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            return this._listen(obj => {
+                if (predicate(obj)) {
+                    trigger(obj);
+                    return;
+                }
+                if (inclusive) trigger(obj);
+                done();
+            }, done, fail);
+        });
+    }
+
+    /**
+     * Returns a new Observable skipping events equal to the event before
+     * them.
+     *
+     * @param equals  compares events, defaulting to `===`.
+     */
+    distinctUntilChanged(
+        equals: (previous: T, current: T) => boolean = (a, b) => a === b
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let previous: { value: T } | undefined;
+            return this._listen(obj => {
+                const changed = !previous || !equals(previous.value, obj);
+                previous = { value: obj };
+                if (changed) trigger(obj);
+            }, done, fail);
+        });
+    }
+
+    /**
+     * Returns a new Observable skipping events whose key was already seen.
+     *
+     * @param keyFn  identifies events, defaulting to the events themselves.
+     * @param flush  forgets all keys seen so far whenever it triggers.
+     */
+    distinct<K>(keyFn?: (obj: T) => K, flush?: Observable<any>): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const seen = new Set<K | T>();
+            const detachFlush = flush ?
+                flush._listen(() => seen.clear(), () => { }, fail) :
+                () => { };
+            const detach = this._listen(obj => {
+                const key = keyFn ? keyFn(obj) : obj;
+                if (seen.has(key)) return;
+                seen.add(key);
+                trigger(obj);
+            }, done, fail);
+            return () => {
+                detachFlush();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering values before the events of this
+     * Observable.
+     *
+     * As listeners attach after the returned Observable is created, values
+     * are triggered asynchronously. Meanwhile, events of this Observable are
+     * held back.
+     */
+    startWith(...values: T[]): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let held: Signal[] | undefined = [];
+            const hold = (action: Signal) => {
+                if (held) held.push(action);
+                else action();
+            };
+
+            Promise.resolve().then(() => {
+                const actions = held!;
+                held = undefined;
+                values.forEach(trigger);
+                actions.forEach(action => action());
+            });
+
+            return this._listen(obj => hold(() => trigger(obj)),
+                () => hold(done),
+                err => hold(() => fail(err)));
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering values once this Observable is
+     * done, after its events.
+     */
+    endWith(...values: T[]): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            return this._listen(trigger, () => {
+                values.forEach(trigger);
+                done();
+            }, fail);
+        });
+    }
+
+    /**
+     * Returns an Observable multicasting the events of this Observable to
+     * all its listeners. It listens to this Observable once it gets its first
+     * listener, and detaches from this Observable once it loses its last one,
+     * tearing this Observable down.
+     */
+    share(): Observable<T> {
+        return new SharedObservable(this, new Subject<T>());
+    }
+
+    /**
+     * Like share, but listeners attached later (even after completion)
+     * receive the last `bufferSize` events first.
+     *
+     * @param bufferSize  number of past events to replay. Defaults to all.
+     */
+    shareReplay(bufferSize = Infinity): Observable<T> {
+        return new SharedObservable(this, new ReplaySubject<T>(bufferSize));
+    }
+
+    /**
+     * Writes each event of this Observable to a Node.js Writable stream,
+     * ending it once this Observable is done.
+     *
+     * While writable's buffer is full, an Observable created by
+     * Observable.fromReadable is paused until writable drains. Other
+     * Observables cannot be paused, and rely on the buffering of writable.
+     * This includes Observables returned by operators: backpressure only
+     * applies when piping the Observable returned by fromReadable itself, so
+     * transform chunks with a stream, or pause and resume it explicitly.
+     *
+     * @returns  a Promise resolving once writable has finished (or, if
+     *           options.end is false, once this Observable is done), and
+     *           rejecting if either this Observable or writable fails. In
+     *           that case, writable is not ended.
+     */
+    pipeTo(writable: WritableLike<T>, options: PipeOptions = {}): Promise<void> {
+        const pausable = this instanceof ReadableObservable ? this : undefined;
+        return new Promise<void>((resolve, reject) => {
+            let detach: Signal = () => { };
+            const onDrain = () => pausable && pausable.resume();
+            const onFinish = () => {
+                cleanup();
+                resolve();
+            };
+            const onError = (err: any) => {
+                cleanup();
+                detach();
+                reject(err);
+            };
+            const cleanup = () => {
+                writable.removeListener("drain", onDrain);
+                writable.removeListener("finish", onFinish);
+                writable.removeListener("error", onError);
+            };
+            writable.on("drain", onDrain);
+            writable.on("error", onError);
+
+            detach = this._listen(chunk => {
+                if (!writable.write(chunk) && pausable) pausable.pause();
+            }, () => {
+                if (options.end === false) {
+                    cleanup();
+                    resolve();
+                } else {
+                    writable.on("finish", onFinish);
+                    writable.end();
+                }
+            }, err => {
+                cleanup();
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Allows iterating over the events of this Observable with `for await`.
+     * Exiting the loop early unsubscribes from this Observable.
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return new ObservableAsyncIterator(this);
+    }
+
+    /**
+     * Applies operators to this Observable, from left to right.
+     *
+     * @example  observable.pipe(map(n => n * 2), filter(n => n > 2))
+     */
+    pipe(): Observable<T>;
+    pipe<A>(op1: OperatorFunction<T, A>): Observable<A>;
+    pipe<A, B>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>
+    ): Observable<B>;
+    pipe<A, B, C>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>
+    ): Observable<C>;
+    pipe<A, B, C, D>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>
+    ): Observable<D>;
+    pipe<A, B, C, D, E>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>,
+        op5: OperatorFunction<D, E>
+    ): Observable<E>;
+    pipe<A, B, C, D, E, F>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>,
+        op5: OperatorFunction<D, E>,
+        op6: OperatorFunction<E, F>
+    ): Observable<F>;
+    pipe<A, B, C, D, E, F, G>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>,
+        op5: OperatorFunction<D, E>,
+        op6: OperatorFunction<E, F>,
+        op7: OperatorFunction<F, G>
+    ): Observable<G>;
+    pipe<A, B, C, D, E, F, G, H>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>,
+        op5: OperatorFunction<D, E>,
+        op6: OperatorFunction<E, F>,
+        op7: OperatorFunction<F, G>,
+        op8: OperatorFunction<G, H>
+    ): Observable<H>;
+    pipe<A, B, C, D, E, F, G, H, I>(
+        op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>,
+        op5: OperatorFunction<D, E>,
+        op6: OperatorFunction<E, F>,
+        op7: OperatorFunction<F, G>,
+        op8: OperatorFunction<G, H>,
+        op9: OperatorFunction<H, I>
+    ): Observable<I>;
+    pipe(...operators: OperatorFunction<any, any>[]): Observable<any>;
+    pipe(...operators: OperatorFunction<any, any>[]): Observable<any> {
+        return operators.reduce<Observable<any>>(
+            (source, operator) => operator(source), this);
+    }
+
+    /**
+     * The name given to this Observable by Observable.named, if any.
+     */
+    get name(): string | undefined {
+        return this._name;
+    }
+
+    /**
+     * Names this Observable, so that it can be told apart in the events
+     * reported to instrumentation hooks (see "./instrumentation").
+     *
+     * @returns  this Observable.
+     */
+    named(name: string): this {
+        this._name = name;
+        return this;
+    }
+
+    /**
+     * @returns  whether this Observable has copmleted.
+     */
+    isDone(): boolean {
+        return this._callbacks === undefined;
+    }
+
+    /**
+     * Subscribes observer to this Observable.
+     *
+     * If observer.next throws, observer is unsubscribed and the error is
+     * passed to observer.error. Without observer.error, failures are rethrown
+     * asynchronously, so that they are not silently lost.
+     *
+     * @returns  a handle to unsubscribe observer. Unsubscribing the last
+     *           listener of this Observable tears it down.
+     */
+    subscribe(observer: Observer<T>): SubscriptionHandle;
+    /**
+     * Returns a copy of this Observable that is a subscription.
+     * A subscription is an observable that can be 'unsubscribed', which no
+     * longer causes it to trigger events on its parent observable.
+     *
+     * @param executor  Supplied by the user and called immediately, executor
+     *                  allows the subscriber to unsubscribe or fail a given
+     *                  subscription. Optionally returns a listener functor to
+     *                  trigger on each event.
+     *
+     * Unsubscribing detaches the subscription from this Observable. If the
+     * subscription was the last listener of this Observable, this Observable
+     * is torn down as well.
+     */
+    subscribe(executor: (
+        unsubscribe: Signal,
+        failAndUnsubscribe: (err: any) => void
+    ) => Listener<T> | void): Observable<T>;
+    subscribe(
+        arg: Observer<T> | ((
+            unsubscribe: Signal,
+            failAndUnsubscribe: (err: any) => void
+        ) => Listener<T> | void)
+    ): Observable<T> | SubscriptionHandle {
+        if (typeof arg !== "function") return this._observe(arg);
+        const executor = arg;
+
+        return new Observable<T>((trigger, done, fail) => {
+            let listener: Listener<T> | void = undefined;
+            const preTrigger = (obj: T) => {
+                trigger(obj);
+                if (listener) {
+                    listener(obj);
+                }
+            };
+
+            // done and fail both tear down the subscription, detaching it.
+            const detach = this._listen(preTrigger, done, fail);
+            listener = executor(done, fail);
+            return detach;
+        });
+    }
+
+    /**
+     * Returns a new Observable whose lifetime is at most timeoutMs, failing
+     * if the underlying Observable has a longer lifetime.
+     *
+     * If this Observable is done before timeoutMs, the returned Observable
+     * will be done. If this Observable fails before timeoutMs, the returned
+     * Observable will fail. If this Observable is still ongoing after
+     * timeoutMs, the returned Observable will fail.
+     *
+     * @param timeoutMs amount of time before an ongoing Observable is ended.
+     * @param scheduler provides time. Defaults to real timers.
+     */
+    withTimeout(
+        timeoutMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const cancel = scheduler.schedule(() => {
+                fail(new TimeoutError(timeoutMs));
+            }, timeoutMs);
+            const detach = this._listen(trigger, done, fail);
+            return () => {
+                cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable which, if this Observable fails, continues
+     * with the Observable returned by handler for the failure.
+     *
+     * @param handler  maps a failure to the Observable to continue with.
+     */
+    catchError<R>(handler: (err: any) => Observable<R>): Observable<T | R> {
+        return new Observable<T | R>((trigger, done, fail) => {
+            let detach = this._listen(trigger, done, err => {
+                let fallback: Observable<R>;
+                try {
+                    fallback = handler(err);
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+                detach = fallback._listen(trigger, done, fail);
+            });
+            return () => detach();
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the events of this Observable,
+     * listening to it again, up to count times, if it fails.
+     *
+     * Listening again only replays events for Observables replaying their
+     * events to each listener, such as those created by Observable.defer.
+     * Other Observables fail listeners attached after their failure.
+     */
+    retry(count: number): Observable<T> {
+        return Observable.retry(() => this, count);
+    }
+
+    /**
+     * Like retry, but listens to this Observable again once the Observable
+     * returned by notifier for each failure triggers or is done, and fails if
+     * it fails.
+     *
+     * @see Observable.backoff  for a notifier retrying with exponential
+     *                          backoff.
+     */
+    retryWhen(
+        notifier: (err: any, attempt: number) => Observable<any>
+    ): Observable<T> {
+        return Observable.retryWhen(() => this, notifier);
+    }
+
+    /**
+     * Returns a new Observable triggering the events of this Observable, then
+     * of each of others in turn, once the previous one is done or failed.
+     * Failures are ignored.
+     */
+    onErrorResumeNext(...others: Observable<T>[]): Observable<T> {
+        const sources = [this as Observable<T>, ...others];
+        return new Observable<T>((trigger, done) => {
+            let index = 0;
+            let detach: Signal = () => { };
+            const next = () => {
+                if (index < sources.length) {
+                    detach = sources[index++]._listen(trigger, next, next);
+                } else {
+                    done();
+                }
+            };
+            next();
+            return () => detach();
+        });
+    }
+
+    /**
+     * Returns a new Observable mirroring this Observable, which calls action
+     * once it is done, failed, or unsubscribed from.
+     */
+    finalize(action: Signal): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const detach = this._listen(trigger, done, fail);
+            return () => {
+                detach();
+                action();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable mirroring this Observable, calling the
+     * callbacks of observer (or the function observer) on each of its events
+     * as a side effect. observer.unsubscribe is called if the returned
+     * Observable loses all its listeners before this Observable is done.
+     *
+     * If a callback throws, the returned Observable fails with the error.
+     */
+    tap(observer: TapObserver<T> | ((value: T) => void)): Observable<T> {
+        const callbacks: TapObserver<T> = typeof observer === "function" ?
+            { next: observer } :
+            observer;
+        return new Observable<T>((trigger, done, fail) => {
+            let finished = false;
+            const detach = this._listen(obj => {
+                if (callbacks.next) callbacks.next(obj);
+                trigger(obj);
+            }, () => {
+                finished = true;
+                try {
+                    if (callbacks.complete) callbacks.complete();
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+                done();
+            }, err => {
+                finished = true;
+                try {
+                    if (callbacks.error) callbacks.error(err);
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+                fail(err);
+            });
+            return () => {
+                detach();
+                if (!finished && callbacks.unsubscribe) callbacks.unsubscribe();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering each event of this Observable as an
+     * Ok Result. If this Observable fails, the returned Observable triggers
+     * the failure as an Err Result, then is done.
+     */
+    materialize(): Observable<Result<T>> {
+        return new Observable<Result<T>>((trigger, done) => {
+            return this._listen(obj => trigger(ok(obj)), done, error => {
+                trigger(err(error));
+                done();
+            });
+        });
+    }
+
+    /**
+     * The reverse of materialize: returns a new Observable triggering the
+     * value of each Ok Result of this Observable, and failing with the error
+     * of the first Err Result.
+     */
+    dematerialize<R>(this: Observable<Result<R>>): Observable<R> {
+        return new Observable<R>((trigger, done, fail) => {
+            return this._listen(result => {
+                if (result.ok) trigger(result.value);
+                else fail(result.error);
+            }, done, fail);
+        });
+    }
+
+    /**
+     * @param conditions Predicates for whether obj should be included. These
+     *                   are evaluated in order, and might decide
+     *                   asynchronously (see filter).
+     * @returns a new Observable that triggers only on objects in this
+     * Observable where each condition of conditions passed applies.
+     */
+    withConditions(...conditions: AsyncPredicate<T>[]): Observable<T> {
+        return this.filter(obj => {
+            for (let i = 0; i < conditions.length; ++i) {
+                const accepted = conditions[i](obj);
+                if (isPromiseLike(accepted)) {
+                    // evaluate the remaining conditions asynchronously.
+                    const rest = everyAsync(conditions.slice(i + 1));
+                    return accepted.then(now => now && rest(obj));
+                }
+                if (!accepted) return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * @param conditions Predicates for whether the Observable should be
+     *                   included. If any of these return false, the Observable
+     *                   will signal an end.
+     * @returns a new Observable that triggers all objects in this Observable
+     * until one of the condition predicates evaluates to `false` for a given
+     * event.
+     */
+    whileConditions(...conditions: ((obj: T) => boolean)[]): Observable<T> {
+        return this.subscribe((unsubscribe, fail) => {
+            return (obj: T) => {
+                if (!conditions.every(c => c(obj))) {
+                    unsubscribe();
+                }
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the events of this Observable until
+     * notifier triggers its first event. Fails if notifier fails first.
+     */
+    takeUntil(notifier: Observable<any>): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const stop = notifier._listen(() => done(), () => { }, fail);
+            const detach = this._listen(trigger, done, fail);
+            return () => {
+                stop();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the events of this Observable until
+     * signal is aborted.
+     */
+    takeUntilSignal(signal: AbortSignalLike): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            if (signal.aborted) {
+                done();
+                return;
+            }
+            const onAbort = () => done();
+            signal.addEventListener("abort", onAbort);
+            const detach = this._listen(trigger, done, fail);
+            return () => {
+                signal.removeEventListener("abort", onAbort);
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable based on this, with at most n events before
+     * terminating successfully.
+     * @param n The maximum number of events to include in this Observable.
+     */
+    firstN(n: number): Observable<T> {
+        if (n <= 0) return Observable.empty<T>();
+
+        return this.subscribe(unsubscribe => {
+            return (obj: T) => {
+                if (--n === 0) {
+                    unsubscribe();
+                }
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable whose lifetime is at most timeoutMs.
+     *
+     * If this Observable is done before timeoutMs, the returned Observable
+     * will be done. If this Observable fails before timeoutMs, the returned
+     * Observable will fail. If this Observable is still ongoing after
+     * timeoutMs, the returned Observable will be done.
+     *
+     * This is similar to withTimeout, but succeeds if the timeout elapses and
+     * the underlying Observable has not yet completed.
+     *
+     * @param timeoutMs amount of time before an ongoing Observable is ended.
+     * @param scheduler provides time. Defaults to real timers.
+     */
+    firstT(
+        timeoutMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const cancel = scheduler.schedule(done, timeoutMs);
+            const detach = this._listen(trigger, done, fail);
+            return () => {
+                cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering an event of this Observable only
+     * once dueMs passed without another event. If this Observable is done
+     * while an event is pending, the event is triggered immediately.
+     *
+     * @param dueMs  quiet time required before an event is triggered.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    debounceTime(
+        dueMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let cancel: Signal | undefined;
+            let pending: { value: T } | undefined;
+            const flush = () => {
+                cancel = undefined;
+                if (pending) {
+                    const value = pending.value;
+                    pending = undefined;
+                    trigger(value);
+                }
+            };
+
+            const detach = this._listen(obj => {
+                if (cancel) cancel();
+                pending = { value: obj };
+                cancel = scheduler.schedule(flush, dueMs);
+            }, () => {
+                if (cancel) cancel();
+                flush();
+                done();
+            }, fail);
+
+            return () => {
+                if (cancel) cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering at most one event of this
+     * Observable per window of durationMs. A window starts with the first
+     * event after the previous window.
+     *
+     * @param durationMs  length of each window.
+     * @param options  whether to trigger the first (leading) and/or last
+     *                 (trailing) event of each window.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    throttleTime(
+        durationMs: number,
+        options: ThrottleOptions = {},
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        const leading = options.leading !== false;
+        const trailing = options.trailing === true;
+
+        return new Observable<T>((trigger, done, fail) => {
+            let cancel: Signal | undefined;
+            let pending: { value: T } | undefined;
+            const startWindow = () => {
+                cancel = scheduler.schedule(endWindow, durationMs);
+            };
+            const endWindow = () => {
+                cancel = undefined;
+                if (pending) {
+                    const value = pending.value;
+                    pending = undefined;
+                    trigger(value);
+                    // a trailing event starts a new window of its own.
+                    startWindow();
+                }
+            };
+
+            const detach = this._listen(obj => {
+                if (!cancel) {
+                    if (leading) trigger(obj);
+                    else if (trailing) pending = { value: obj };
+                    startWindow();
+                } else if (trailing) {
+                    pending = { value: obj };
+                }
+            }, () => {
+                if (pending) trigger(pending.value);
+                done();
+            }, fail);
+
+            return () => {
+                if (cancel) cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering, every periodMs, the latest event
+     * of this Observable if any occurred since the previous period.
+     *
+     * @param periodMs  sampling period.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    sampleTime(
+        periodMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let pending: { value: T } | undefined;
+            const cancel = scheduler.scheduleInterval(() => {
+                if (pending) {
+                    const value = pending.value;
+                    pending = undefined;
+                    trigger(value);
+                }
+            }, periodMs);
+
+            const detach = this._listen(obj => {
+                pending = { value: obj };
+            }, done, fail);
+
+            return () => {
+                cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable which, upon an event of this Observable,
+     * waits durationMs then triggers the latest event of this Observable.
+     * If this Observable is done while an event is pending, the event is
+     * triggered immediately.
+     *
+     * @param durationMs  time to wait after an event before triggering.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    auditTime(
+        durationMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let cancel: Signal | undefined;
+            let pending: { value: T } | undefined;
+            const flush = () => {
+                cancel = undefined;
+                if (pending) {
+                    const value = pending.value;
+                    pending = undefined;
+                    trigger(value);
+                }
+            };
+
+            const detach = this._listen(obj => {
+                pending = { value: obj };
+                if (!cancel) cancel = scheduler.schedule(flush, durationMs);
+            }, () => {
+                if (cancel) cancel();
+                flush();
+                done();
+            }, fail);
+
+            return () => {
+                if (cancel) cancel();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering each event of this Observable, and
+     * its completion, delayMs later. Failures are not delayed.
+     *
+     * @param delayMs  time by which to delay each event.
+     * @param scheduler  provides time. Defaults to real timers.
+     */
+    delay(
+        delayMs: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const cancels = new Set<Signal>();
+            const later = (action: Signal) => {
+                const cancel = scheduler.schedule(() => {
+                    cancels.delete(cancel);
+                    action();
+                }, delayMs);
+                cancels.add(cancel);
+            };
+
+            const detach = this._listen(
+                obj => later(() => trigger(obj)),
+                () => later(done),
+                fail);
+
+            return () => {
+                cancels.forEach(cancel => cancel());
+                cancels.clear();
+                detach();
+            };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering each event of this Observable
+     * along with the time elapsed since the previous event (or since this
+     * call, for the first event).
+     *
+     * @param scheduler  provides time. Defaults to the real clock.
+     */
+    timeInterval(
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<TimeInterval<T>> {
+        let last = scheduler.now();
+        return this.map(value => {
+            const now = scheduler.now();
+            const interval = now - last;
+            last = now;
+            return { value, interval };
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering each event of this Observable
+     * along with the time at which it was triggered.
+     *
+     * @param scheduler  provides time. Defaults to the real clock.
+     */
+    timestamp(
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<Timestamped<T>> {
+        return this.map(value => ({ value, timestamp: scheduler.now() }));
+    }
+
+    /**
+     * Attaches a listener to this Observable. If this Observable is already
+     * done (or failed), resolve (or reject) is called immediately.
+     *
+     * Subclasses can override this to replay past events to new listeners.
+     *
+     * @returns  a Signal detaching the listener. Detaching the last listener
+     *           of this Observable tears it down.
+     */
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        if (this._failure) {
+            reject(this._failure.error);
+            return () => { };
+        }
+        if (this.isDone()) {
+            resolve();
+            return () => { };
+        }
+        const item: CallbackItem<T> = { listener, resolve, reject };
+        this._callbacks!.push(item);
+        if (isInstrumented()) {
+            report({
+                kind: "listen",
+                observable: this,
+                listeners: this._listenerCount()
+            });
+        }
+        return () => this._remove(item);
+    }
+
+    private _observe(observer: Observer<T>): SubscriptionHandle {
+        let detach: Signal = () => { };
+        const handle = new SubscriptionHandle(() => detach());
+
+        // a throwing listener is detached, and its reject callback called.
+        detach = this._listen(obj => {
+            if (observer.next) observer.next(obj);
+        }, () => {
+            handle.unsubscribe();
+            if (observer.complete) observer.complete();
+        }, err => {
+            handle.unsubscribe();
+            if (observer.error) observer.error(err);
+            else defaultScheduler.schedule(() => { throw err; }, 0);
+        });
+        // the listener might have been rejected synchronously.
+        if (handle.closed) detach();
+        return handle;
+    }
+
+    // Resolves with the first event accepted by test and its index, or with
+    // undefined if there is none. Unsubscribes once found.
+    private _find(
+        test: (t: T) => boolean
+    ): Promise<{ value: T, index: number } | undefined> {
+        return new Promise((resolve, reject) => {
+            let index = 0;
+            this.subscribe(unsubscribe => {
+                return obj => {
+                    if (test(obj)) {
+                        resolve({ value: obj, index });
+                        unsubscribe();
+                    }
+                    ++index;
+                };
+            }).forEach(() => { }).then(() => resolve(undefined), reject);
+        });
+    }
+
+    // Resolves with the event preferred by isBetter over all others, or
+    // rejects with an EmptyError if there are no events.
+    private _best(isBetter: (candidate: T, best: T) => boolean): Promise<T> {
+        let best: { value: T } | undefined;
+        return this.forEach(t => {
+            if (!best || isBetter(t, best.value)) best = { value: t };
+        }).then(() => {
+            if (!best) throw new EmptyError();
+            return best.value;
+        });
+    }
+
+    // Like _listen, but also detaches the listener and rejects with an
+    // AbortError once signal is aborted.
+    private _listenAbortable(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void,
+        signal?: AbortSignalLike
+    ): Signal {
+        if (!signal) return this._listen(listener, resolve, reject);
+        if (signal.aborted) {
+            reject(new AbortError());
+            return () => { };
+        }
+
+        let detach: Signal = () => { };
+        const onAbort = () => {
+            release();
+            detach();
+            reject(new AbortError());
+        };
+        const release = () => signal.removeEventListener("abort", onAbort);
+        signal.addEventListener("abort", onAbort);
+
+        detach = this._listen(listener, () => {
+            release();
+            resolve();
+        }, err => {
+            release();
+            reject(err);
+        });
+        return () => {
+            release();
+            detach();
+        };
+    }
+
+    private _remove(item: CallbackItem<T>): void {
+        if (!this._callbacks) return;
+
+        const index = this._callbacks.indexOf(item);
+        if (index < 0) return;
+
+        // keep indices stable, as we might be in the middle of a trigger.
+        this._callbacks[index] = undefined;
+        if (isInstrumented()) {
+            report({
+                kind: "unlisten",
+                observable: this,
+                listeners: this._listenerCount()
+            });
+        }
+        if (!this._keepAlive && this._callbacks.every(cb => cb === undefined)) {
+            if (isInstrumented()) report({ kind: "done", observable: this });
+            this._callbacks = undefined;
+            this._dispose();
+        }
+    }
+
+    private _listenerCount(): number {
+        return this._callbacks ?
+            this._callbacks.filter(cb => cb !== undefined).length :
+            0;
+    }
+
+    /**
+     * Whether this Observable remains active once it loses all its listeners,
+     * rather than being done.
+     */
+    protected get _keepAlive(): boolean {
+        return false;
+    }
+
+    private _dispose(): void {
+        const teardown = this._teardown;
+        this._teardown = undefined;
+        if (teardown) teardown();
+    }
+
+    private _callbacks?: (CallbackItem<T> | undefined)[] = [];
+    private _teardown?: Signal;
+    private _failure?: { error: any };
+    private _name?: string;
+
+    // static manipulation functions
+    /**
+     * Returns a new Observable triggering the events of all sources, done
+     * once all sources are done.
+     */
+    static merge<T>(...sources: Observable<T>[]): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let remaining = sources.length;
+            if (remaining === 0) done();
+
+            const doneOne = () => {
+                if (--remaining === 0) done();
+            };
+            const detaches = sources.map(
+                source => source._listen(trigger, doneOne, fail));
+            return () => detaches.forEach(detach => detach());
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the events of each source in turn,
+     * listening to a source once the previous one is done.
+     */
+    static concat<T>(...sources: Observable<T>[]): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let index = 0;
+            let detach: Signal = () => { };
+            const next = () => {
+                if (index < sources.length) {
+                    detach = sources[index++]._listen(trigger, next, fail);
+                } else {
+                    done();
+                }
+            };
+            next();
+            return () => detach();
+        });
+    }
+
+    /**
+     * Returns a new Observable pairing up the n-th events of all sources.
+     * It is done once any source is done and all of its events were paired.
+     */
+    static zip<A, B>(a: Observable<A>, b: Observable<B>): Observable<[A, B]>;
+    static zip<A, B, C>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>
+    ): Observable<[A, B, C]>;
+    static zip<A, B, C, D>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>, d: Observable<D>
+    ): Observable<[A, B, C, D]>;
+    static zip<T>(...sources: Observable<T>[]): Observable<T[]>;
+    static zip(...sources: Observable<any>[]): Observable<any> {
+        return new Observable<any[]>((trigger, done, fail) => {
+            const buffers: any[][] = sources.map(() => []);
+            const finished = sources.map(() => false);
+            const checkDone = () => {
+                if (finished.some((fin, i) => fin && buffers[i].length === 0)) {
+                    done();
+                }
+            };
+            if (sources.length === 0) done();
+
+            const detaches = sources.map((source, i) => source._listen(obj => {
+                buffers[i].push(obj);
+                if (buffers.every(buffer => buffer.length > 0)) {
+                    trigger(buffers.map(buffer => buffer.shift()));
+                    checkDone();
+                }
+            }, () => {
+                finished[i] = true;
+                checkDone();
+            }, fail));
+            return () => detaches.forEach(detach => detach());
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering, on each event of any source, the
+     * latest events of all sources, once every source triggered. It is done
+     * once all sources are done.
+     */
+    static combineLatest<A, B>(
+        a: Observable<A>, b: Observable<B>): Observable<[A, B]>;
+    static combineLatest<A, B, C>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>
+    ): Observable<[A, B, C]>;
+    static combineLatest<A, B, C, D>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>, d: Observable<D>
+    ): Observable<[A, B, C, D]>;
+    static combineLatest<T>(...sources: Observable<T>[]): Observable<T[]>;
+    static combineLatest(...sources: Observable<any>[]): Observable<any> {
+        return new Observable<any[]>((trigger, done, fail) => {
+            const latest: any[] = sources.map(() => undefined);
+            const hasLatest = sources.map(() => false);
+            let remaining = sources.length;
+            if (remaining === 0) done();
+
+            const detaches = sources.map((source, i) => source._listen(obj => {
+                latest[i] = obj;
+                hasLatest[i] = true;
+                if (hasLatest.every(has => has)) trigger(latest.slice());
+            }, () => {
+                // a source done without any event means nothing to combine.
+                if (--remaining === 0 || !hasLatest[i]) done();
+            }, fail));
+            return () => detaches.forEach(detach => detach());
+        });
+    }
+
+    /**
+     * Returns a new Observable mirroring the first source to trigger, be
+     * done or fail. All other sources are unsubscribed from at that point.
+     */
+    static race<T>(...sources: Observable<T>[]): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const detaches: Signal[] = [];
+            let winner = -1;
+            const wins = (i: number) => {
+                if (winner < 0) {
+                    winner = i;
+                    detaches.forEach((detach, j) => j !== i && detach());
+                }
+                return winner === i;
+            };
+
+            for (let i = 0; i < sources.length && winner < 0; ++i) {
+                detaches.push(sources[i]._listen(
+                    obj => wins(i) && trigger(obj),
+                    () => wins(i) && done(),
+                    err => wins(i) && fail(err)));
+            }
+            return () => detaches.forEach(detach => detach());
+        });
+    }
+
+    /**
+     * Returns a new Observable triggering the last events of all sources
+     * once all sources are done. If any source is done without triggering,
+     * the returned Observable is done without triggering.
+     */
+    static forkJoin<A, B>(
+        a: Observable<A>, b: Observable<B>): Observable<[A, B]>;
+    static forkJoin<A, B, C>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>
+    ): Observable<[A, B, C]>;
+    static forkJoin<A, B, C, D>(
+        a: Observable<A>, b: Observable<B>, c: Observable<C>, d: Observable<D>
+    ): Observable<[A, B, C, D]>;
+    static forkJoin<T>(...sources: Observable<T>[]): Observable<T[]>;
+    static forkJoin(...sources: Observable<any>[]): Observable<any> {
+        return new Observable<any[]>((trigger, done, fail) => {
+            const last: any[] = sources.map(() => undefined);
+            const hasLast = sources.map(() => false);
+            let remaining = sources.length;
+            if (remaining === 0) done();
+
+            const detaches = sources.map((source, i) => source._listen(obj => {
+                last[i] = obj;
+                hasLast[i] = true;
+            }, () => {
+                if (!hasLast[i]) {
+                    done();
+                } else if (--remaining === 0) {
+                    trigger(last);
+                    done();
+                }
+            }, fail));
+            return () => detaches.forEach(detach => detach());
+        });
+    }
+
+    /**
+     * Returns a new Observable listening to the Observable created by
+     * factory, re-creating it up to count times if it fails.
+     *
+     * Observables are listened to as they are created, so retrying requires
+     * a factory creating a fresh Observable for each attempt. Use
+     * Observable.retry on Observables replaying their events to each
+     * listener instead.
+     */
+    static retry<T>(factory: () => Observable<T>, count: number): Observable<T> {
+        return Observable.retryWhen(factory, (err, attempt) => {
+            return attempt <= count ?
+                Observable.empty<void>() : Observable.throw<void>(err);
+        });
+    }
+
+    /**
+     * Returns a new Observable listening to the Observable created by
+     * factory. Each time it fails, notifier is called with the failure and
+     * the attempt number (starting at 1): the Observable is re-created once
+     * the returned Observable triggers or is done, and the returned
+     * Observable fails if it fails.
+     *
+     * @see Observable.backoff  for a notifier retrying with exponential
+     *                          backoff.
+     */
+    static retryWhen<T>(
+        factory: () => Observable<T>,
+        notifier: (err: any, attempt: number) => Observable<any>
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            let attempt = 0;
+            let detach: Signal = () => { };
+
+            const listenSource = () => {
+                let source: Observable<T>;
+                try {
+                    source = factory();
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+                detach = source._listen(trigger, done, err => {
+                    let notification: Observable<any>;
+                    try {
+                        notification = notifier(err, ++attempt);
+                    } catch (e) {
+                        fail(e);
+                        return;
+                    }
+
+                    let retried = false;
+                    let detachNotifier: Signal | undefined;
+                    const retry = () => {
+                        if (retried) return;
+                        retried = true;
+                        if (detachNotifier) detachNotifier();
+                        listenSource();
+                    };
+                    const detachNotification =
+                        notification._listen(retry, retry, fail);
+
+                    // the notification might have retried synchronously.
+                    if (retried) {
+                        detachNotification();
+                    } else {
+                        detachNotifier = detachNotification;
+                        detach = detachNotification;
+                    }
+                });
+            };
+            listenSource();
+            return () => detach();
+        });
+    }
+
+    /**
+     * Creates a notifier for retryWhen, retrying after exponentially growing
+     * delays.
+     */
+    static backoff(
+        options: BackoffOptions
+    ): (err: any, attempt: number) => Observable<void> {
+        const factor = options.factor === undefined ? 2 : options.factor;
+        const maxDelayMs = options.maxDelayMs === undefined ?
+            Infinity : options.maxDelayMs;
+        const jitter = options.jitter || 0;
+        const maxRetries = options.maxRetries === undefined ?
+            Infinity : options.maxRetries;
+        const scheduler = options.scheduler || defaultScheduler;
+        const random = options.random || Math.random;
+
+        return (err: any, attempt: number) => {
+            if (attempt > maxRetries) return Observable.throw<void>(err);
+
+            const delayMs = Math.min(
+                maxDelayMs,
+                options.initialDelayMs * Math.pow(factor, attempt - 1));
+            const jittered = delayMs * (1 - jitter * random());
+            return new Observable<void>((trigger, done) => {
+                return scheduler.schedule(done, jittered);
+            });
+        };
     }
 
     // static creation functions
-    static interval(timeout: number): Observable<number> {
+    static interval(
+        timeout: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<number> {
         return new Observable((trigger, done, fail) => {
             let count = 0;
-            setInterval(() => {
+            // done() is never called, but listeners can go away
+            return scheduler.scheduleInterval(() => {
                 trigger(count);
                 ++count;
             }, timeout);
-            // done() is never called
         });
     }
+    /**
+     * Creates an Observable triggering 0 after dueMs, then, if periodMs is
+     * supplied, an increasing count every periodMs. Without periodMs, it is
+     * done after its single event.
+     */
+    static timer(
+        dueMs: number,
+        periodMs?: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Observable<number> {
+        return new Observable<number>((trigger, done) => {
+            let count = 0;
+            let cancel = scheduler.schedule(() => {
+                // schedule the interval first, as listeners going away on
+                // the first event cancel it.
+                if (periodMs !== undefined) {
+                    cancel = scheduler.scheduleInterval(
+                        () => trigger(count++), periodMs);
+                }
+                trigger(count++);
+                if (periodMs === undefined) done();
+            }, dueMs);
+            return () => cancel();
+        });
+    }
+    /**
+     * Creates an Observable from any of:
+     *  - an Observable, which is returned as-is;
+     *  - an interop observable, implementing `[Symbol.observable]()`, such as
+     *    the Observables of other reactive libraries;
+     *  - an ObservableLike;
+     *  - a Subscribable;
+     *  - a Promise, or any other thenable;
+     *  - an array, or any other iterable;
+     *  - an AsyncIterable.
+     *
+     * Interop observables, Subscribables, promises, iterables and
+     * AsyncIterables are adopted lazily, as a LazyObservable, so that
+     * listeners attached after the input settled still receive its events.
+     *
+     * @throws  a TypeError if input is none of these.
+     */
+    static from<T>(input: ObservableInput<T>): Observable<T> {
+        if (input instanceof Observable) return input;
+
+        const subscribable = interopSubscribable<T>(input);
+        if (subscribable) return Observable.fromSubscribable(subscribable);
+        if (input && isObservableLike(input)) {
+            const like = input;
+            return new Observable<T>((trigger, done, fail) => {
+                let unsubscribe: Signal = () => { };
+                like.subscribe(u => {
+                    unsubscribe = u;
+                }).forEach(trigger).then(done, fail);
+                return () => unsubscribe();
+            });
+        }
+        if (input && isSubscribable(input)) {
+            return Observable.fromSubscribable(input);
+        }
+        if (isPromiseLike(input)) {
+            const promise = input;
+            return Observable.adopt(
+                () => Observable.fromPromise(Promise.resolve(promise)));
+        }
+        if (input && isIterable(input)) return Observable.fromIterable(input);
+        if (input && isAsyncIterable(input)) {
+            const iterable = input;
+            return Observable.adopt(
+                () => Observable.fromAsyncIterable(iterable));
+        }
+        throw new TypeError(`Cannot create an Observable from ${input}.`);
+    }
+    // Creates a LazyObservable triggering the events of the Observable
+    // returned by create, which is only called once a listener attaches.
+    private static adopt<T>(create: () => Observable<T>): Observable<T> {
+        return new LazyObservable<T>((trigger, done, fail) => {
+            return create()._listen(trigger, done, fail);
+        });
+    }
+    private static fromSubscribable<T>(
+        subscribable: Subscribable<T>
+    ): Observable<T> {
+        return new LazyObservable<T>((trigger, done, fail) => {
+            const subscription = subscribable.subscribe({
+                next: trigger, error: fail, complete: done
+            });
+            return () => subscription.unsubscribe();
+        });
+    }
+    /**
+     * Creates an Observable triggering each element of array, then done. Like
+     * Observable.just, it only runs once it has a listener, so that its
+     * listeners receive all elements.
+     */
     static fromArray<T>(array: T[]): Observable<T> {
-        return new Observable((trigger, done, fail) => {
+        return new LazyObservable<T>((trigger, done) => {
             array.forEach(trigger);
             done();
         });
@@ -409,27 +2519,287 @@ export class Observable<T> implements ObservableLike<T> {
             }).catch(fail);
         });
     }
+    /**
+     * Creates an Observable triggering each value of an AsyncIterable, such as
+     * an async generator. Values are pulled one at a time; the iterator is
+     * closed if the Observable is torn down before the iterable is exhausted.
+     */
+    static fromAsyncIterable<T>(iterable: AsyncIterable<T>): Observable<T> {
+        return new Observable((trigger, done, fail) => {
+            const iterator = iterable[Symbol.asyncIterator]();
+            let finished = false;
+
+            const pull = () => {
+                iterator.next().then(result => {
+                    if (finished) return;
+                    if (result.done) {
+                        finished = true;
+                        done();
+                    } else {
+                        trigger(result.value);
+                        // trigger might have torn this Observable down.
+                        if (!finished) pull();
+                    }
+                }).catch(err => {
+                    if (finished) return;
+                    finished = true;
+                    fail(err);
+                });
+            };
+            pull();
+
+            return () => {
+                if (finished) return;
+                finished = true;
+                if (iterator.return) {
+                    iterator.return().catch(() => { });
+                }
+            };
+        });
+    }
+    /**
+     * Creates an Observable triggering the events named event of a Node.js
+     * EventEmitter. Its listeners are removed once the Observable is torn
+     * down.
+     */
+    static fromEvent<T = any>(
+        emitter: EventEmitterLike,
+        event: EventName,
+        options: FromEventOptions<T> = {}
+    ): Observable<T> {
+        const select = options.selector || ((value: any) => value as T);
+        const completes = eventNames(options.complete, []);
+        const errors = eventNames(options.error, ["error"]);
+
+        return new Observable<T>((trigger, done, fail) => {
+            const handlers: [EventName, (...args: any[]) => void][] = [
+                [event, (...args: any[]) => trigger(select(...args))]
+            ];
+            completes.forEach(name => handlers.push([name, () => done()]));
+            errors.forEach(name => handlers.push([name, fail]));
+
+            handlers.forEach(([name, handler]) => emitter.on(name, handler));
+            return () => handlers.forEach(([name, handler]) =>
+                emitter.removeListener(name, handler));
+        });
+    }
+    /**
+     * Creates an Observable triggering the events of type `type` dispatched
+     * by an EventTarget, such as a DOM element, window, a WebSocket or an
+     * AbortSignal. Its listener is removed once the Observable is torn down.
+     *
+     * @param options  passed on to addEventListener. With `once`, the
+     *                 Observable is done after its first event. With
+     *                 `signal`, the Observable is done once aborted.
+     */
+    static fromEventTarget<E = any>(
+        target: EventTargetLike<E>,
+        type: string,
+        options: EventTargetOptions = {}
+    ): Observable<E> {
+        const { signal, capture = false, once = false, passive = false } = options;
+
+        return new Observable<E>((trigger, done) => {
+            if (signal && signal.aborted) {
+                done();
+                return;
+            }
+
+            const handler = (event: E) => {
+                trigger(event);
+                if (once) done();
+            };
+            const onAbort = () => done();
+
+            target.addEventListener(type, handler, { capture, once, passive });
+            if (signal) signal.addEventListener("abort", onAbort);
+            return () => {
+                // only `capture` identifies a listener upon removal.
+                target.removeEventListener(type, handler, { capture });
+                if (signal) signal.removeEventListener("abort", onAbort);
+            };
+        });
+    }
+    /**
+     * Creates an Observable triggering the chunks of a Node.js Readable
+     * stream, done once the stream ends or closes, and failing on its errors.
+     * See pipeTo for backpressure, which does not propagate through
+     * operators.
+     */
+    static fromReadable<T = any>(stream: ReadableLike): ReadableObservable<T> {
+        return new ReadableObservable<T>(stream);
+    }
+    /**
+     * Creates a lazy Observable triggering each value of a synchronous
+     * iterable, such as an array, a Set or a generator. Iteration stops once
+     * the Observable is torn down.
+     */
+    static fromIterable<T>(iterable: Iterable<T>): Observable<T> {
+        const observable: Observable<T> = new LazyObservable<T>(
+            (trigger, done) => {
+                for (const value of iterable) {
+                    trigger(value);
+                    // listeners might have gone away.
+                    if (observable.isDone()) return;
+                }
+                done();
+            });
+        return observable;
+    }
+    /**
+     * Creates a lazy Observable triggering count increasing integers, from
+     * start.
+     */
+    static range(start: number, count: number): Observable<number> {
+        return Observable.fromIterable({
+            *[Symbol.iterator]() {
+                for (let i = 0; i < count; ++i) yield start + i;
+            }
+        });
+    }
+    /**
+     * Creates a lazy Observable triggering states, from initialState, and
+     * through step, for as long as condition accepts them.
+     *
+     * @example generate(1, n => n < 100, n => n * 2)
+     */
+    static generate<S>(
+        initialState: S,
+        condition: (state: S) => boolean,
+        step: (state: S) => S
+    ): Observable<S> {
+        return Observable.fromIterable({
+            *[Symbol.iterator]() {
+                for (let s = initialState; condition(s); s = step(s)) yield s;
+            }
+        });
+    }
+    /**
+     * Creates an Observable calling factory for each of its listeners, and
+     * triggering the events of the Observable returned by factory to that
+     * listener only. The Observable fails the listener if factory throws.
+     *
+     * factory should return lazy Observables, such as those created by just,
+     * fromArray or fromIterable, so that the listener receives all events.
+     */
+    static defer<T>(factory: () => Observable<T>): Observable<T> {
+        return new DeferredObservable<T>(factory);
+    }
+    /**
+     * Creates a lazy Observable calling fn with a callback, triggering the
+     * value passed to the callback, then done. The Observable fails if fn
+     * throws.
+     */
+    static fromCallback<T>(
+        fn: (callback: (value: T) => void) => void
+    ): Observable<T> {
+        return new LazyObservable<T>((trigger, done) => {
+            fn(value => {
+                trigger(value);
+                done();
+            });
+        });
+    }
+    /**
+     * Converts a function taking a Node.js style callback, `(err, result)`,
+     * into a function returning a lazy Observable. The Observable triggers
+     * result, then is done, or fails with err.
+     */
+    static bindNodeCallback<R>(
+        fn: (callback: (err: any, result: R) => void) => void
+    ): () => Observable<R>;
+    static bindNodeCallback<A, R>(
+        fn: (a: A, callback: (err: any, result: R) => void) => void
+    ): (a: A) => Observable<R>;
+    static bindNodeCallback<A, B, R>(
+        fn: (a: A, b: B, callback: (err: any, result: R) => void) => void
+    ): (a: A, b: B) => Observable<R>;
+    static bindNodeCallback<A, B, C, R>(
+        fn: (a: A, b: B, c: C,
+             callback: (err: any, result: R) => void) => void
+    ): (a: A, b: B, c: C) => Observable<R>;
+    static bindNodeCallback(
+        fn: (...args: any[]) => void
+    ): (...args: any[]) => Observable<any> {
+        return (...args: any[]) => Observable.fromCallback<[any, any]>(
+            callback => fn(...args, (err: any, result: any) =>
+                callback([err, result]))
+        ).map(([err, result]) => {
+            if (err) throw err;
+            return result;
+        });
+    }
+    /**
+     * Creates a lazy Observable calling fn every intervalMs, and triggering
+     * its results. The next call is scheduled once the previous result is
+     * triggered, so calls never overlap. Fails if fn throws or rejects.
+     */
+    static poll<T>(
+        fn: () => T | Promise<T>,
+        intervalMs: number,
+        options: PollOptions<T> = {}
+    ): Observable<T> {
+        const { until, maxAttempts = Infinity } = options;
+        const scheduler = options.scheduler || defaultScheduler;
+
+        return new LazyObservable<T>((trigger, done, fail) => {
+            let attempts = 0;
+            let stopped = false;
+            let cancel: Signal = () => { };
+
+            const attempt = () => {
+                ++attempts;
+                new Promise<T>(resolve => resolve(fn())).then(result => {
+                    if (stopped) return;
+                    trigger(result);
+                    if ((until && until(result)) || attempts >= maxAttempts) {
+                        done();
+                    } else if (!stopped) {
+                        cancel = scheduler.schedule(attempt, intervalMs);
+                    }
+                }).catch(err => {
+                    if (!stopped) fail(err);
+                });
+            };
+            attempt();
+
+            return () => {
+                stopped = true;
+                cancel();
+            };
+        });
+    }
     static just<T>(val: T): Observable<T> {
-        return new Observable((trigger, done) => {
+        return new LazyObservable<T>((trigger, done) => {
             trigger(val);
             done();
         });
     }
-    static empty(): Observable<never> {
-        return new Observable((trigger, done) => {
+    static empty<T = never>(): Observable<T> {
+        return new Observable<T>((trigger, done) => {
             done();
         });
     }
-    static never(): Observable<never> {
-        return new Observable((trigger, done) => { });
+    static never<T = never>(): Observable<T> {
+        return new Observable<T>((trigger, done) => { });
     }
-    static throw(error: Error): Observable<never> {
-        return new Observable((trigger, done, fail) => {
+    static throw<T = never>(error: Error): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
             fail(error);
         });
     }
 }
 
+// The interop method is keyed by observableSymbol, which is not known to be a
+// unique symbol, so it cannot be declared in the class body.
+Object.defineProperty(Observable.prototype, observableSymbol, {
+    value<T>(this: Observable<T>): Subscribable<T> {
+        return toSubscribable(this);
+    },
+    writable: true,
+    configurable: true
+});
+
 /**
  * A Subscription<T> is a similar type to Observable<T> but can be
  * unsubscribed externally through the dispose() API call.
@@ -441,33 +2811,388 @@ export class Subscription<T> extends Observable<T> {
     constructor(
         executor: (trigger: Listener<T>,
                    done: Signal,
-                   fail: Listener<any>) => void
+                   fail: Listener<any>) => Signal | void
     ) {
+        // `this` cannot be used until super() returns.
+        let dispose: Signal = () => { };
         super((trigger, done, fail) => {
-            this.dispose = done;
-            executor(trigger, done, fail);
+            dispose = done;
+            return executor(trigger, done, fail);
         });
+        this.dispose = dispose;
     }
 
     // static creation functions
-    static interval(timeout: number): Subscription<number> {
+    static interval(
+        timeout: number,
+        scheduler: Scheduler = defaultScheduler
+    ): Subscription<number> {
         return new Subscription((trigger, done) => {
             let count = 0;
-            setInterval(() => {
+            // done() is never called, but dispose() tears down the interval
+            return scheduler.scheduleInterval(() => {
                 trigger(count);
                 ++count;
             }, timeout);
-            // done() is never called
         });
     }
+    /**
+     * @deprecated  use Observable.fromEventTarget, which supports any
+     *              EventTarget and listener options.
+     */
     static fromListener<K extends keyof HTMLElementEventMap>(
         element: HTMLElement, event: K): Subscription<HTMLElementEventMap[K]> {
 
-        const sub = new Subscription<HTMLElementEventMap[K]>(
-            (trigger, done) => {
-                element.addEventListener( event, cb => trigger(cb));
-                sub.then(() => element.removeEventListener(event, trigger));
-            });
-        return sub;
+        return new Subscription<HTMLElementEventMap[K]>(trigger => {
+            const handler = (ev: HTMLElementEventMap[K]) => trigger(ev);
+            element.addEventListener(event, handler);
+            return () => element.removeEventListener(event, handler);
+        });
+    }
+}
+
+/**
+ * A Subject<T> is an Observable<T> whose events are triggered externally,
+ * through next(), complete() and error(). Unlike a plain Observable, it
+ * remains active when it loses all its listeners.
+ */
+export class Subject<T> extends Observable<T> {
+    private readonly _trigger: Listener<T>;
+    private readonly _done: Signal;
+    private readonly _fail: Listener<any>;
+
+    constructor() {
+        // `this` cannot be used until super() returns.
+        let trigger: Listener<T> = () => { };
+        let done: Signal = () => { };
+        let fail: Listener<any> = () => { };
+        super((t, d, f) => {
+            trigger = t;
+            done = d;
+            fail = f;
+        });
+        this._trigger = trigger;
+        this._done = done;
+        this._fail = fail;
+    }
+
+    /**
+     * Triggers value on all listeners. No-op once this Subject is done.
+     */
+    next(value: T): void {
+        this._trigger(value);
+    }
+
+    /**
+     * Marks this Subject as done.
+     */
+    complete(): void {
+        this._done();
+    }
+
+    /**
+     * Fails this Subject with err.
+     */
+    error(err: any): void {
+        this._fail(err);
+    }
+
+    protected get _keepAlive(): boolean {
+        return true;
+    }
+}
+
+/**
+ * A BehaviorSubject<T> is a Subject<T> holding a current value. Listeners are
+ * triggered with the current value as soon as they are attached.
+ */
+export class BehaviorSubject<T> extends Subject<T> {
+    private _value: T;
+
+    constructor(initialValue: T) {
+        super();
+        this._value = initialValue;
+    }
+
+    /**
+     * The latest value of this Subject.
+     */
+    get value(): T {
+        return this._value;
+    }
+
+    next(value: T): void {
+        if (this.isDone()) return;
+        this._value = value;
+        super.next(value);
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        if (!this.isDone()) {
+            try {
+                listener(this._value);
+            } catch (e) {
+                reject(e);
+                return () => { };
+            }
+        }
+        return super._listen(listener, resolve, reject);
+    }
+}
+
+/**
+ * A ReplaySubject<T> is a Subject<T> replaying past values to listeners as
+ * they are attached, including after it is done or failed.
+ */
+export class ReplaySubject<T> extends Subject<T> {
+    private _buffer: { value: T, time: number }[] = [];
+
+    /**
+     * @param bufferSize  maximum number of values to replay.
+     * @param windowMs  maximum age, in milliseconds, of values to replay.
+     * @param scheduler  provides time. Defaults to the real clock.
+     */
+    constructor(
+        private readonly bufferSize = Infinity,
+        private readonly windowMs = Infinity,
+        private readonly scheduler: Scheduler = defaultScheduler
+    ) {
+        super();
+    }
+
+    next(value: T): void {
+        if (this.isDone()) return;
+        this._buffer.push({ value, time: this.scheduler.now() });
+        this._trim();
+        super.next(value);
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        this._trim();
+        for (const item of this._buffer) {
+            try {
+                listener(item.value);
+            } catch (e) {
+                reject(e);
+                return () => { };
+            }
+        }
+        return super._listen(listener, resolve, reject);
+    }
+
+    private _trim(): void {
+        if (this._buffer.length > this.bufferSize) {
+            this._buffer.splice(0, this._buffer.length - this.bufferSize);
+        }
+        if (this.windowMs !== Infinity) {
+            const oldest = this.scheduler.now() - this.windowMs;
+            while (this._buffer.length > 0 && this._buffer[0].time < oldest) {
+                this._buffer.shift();
+            }
+        }
+    }
+}
+
+/**
+ * A SharedObservable<T> multicasts the events of a source Observable through
+ * a Subject, as returned by Observable.share and Observable.shareReplay. It
+ * listens to the source once it gets its first listener, and, like other
+ * Observables, is done once it loses its last one, detaching from the source.
+ */
+export class SharedObservable<T> extends Observable<T> {
+    private readonly _subject: Subject<T>;
+    private _connect?: Signal;
+
+    constructor(source: Observable<T>, subject: Subject<T>) {
+        // `this` cannot be used until super() returns.
+        let connect: Signal = () => { };
+        super((trigger, done, fail) => {
+            let handle: SubscriptionHandle | undefined;
+            connect = () => {
+                handle = source.subscribe({
+                    next: obj => subject.next(obj),
+                    complete: done,
+                    error: fail
+                });
+            };
+            return () => {
+                if (handle) handle.unsubscribe();
+            };
+        });
+        this._subject = subject;
+        this._connect = connect;
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        // events are triggered through the Subject, which might replay past
+        // ones, while completion and failure are tracked by this Observable.
+        let detach: Signal = () => { };
+        const handle = this._subject.subscribe({
+            next: listener,
+            error: err => {
+                detach();
+                reject(err);
+            }
+        });
+        if (handle.closed) return () => { };
+
+        detach = super._listen(() => { }, () => {
+            handle.unsubscribe();
+            resolve();
+        }, err => {
+            handle.unsubscribe();
+            reject(err);
+        });
+        const connect = this._connect;
+        if (connect && !this.isDone()) {
+            this._connect = undefined;
+            connect();
+        }
+        return () => {
+            handle.unsubscribe();
+            detach();
+        };
+    }
+}
+
+/**
+ * A GroupedObservable<K, T> triggers the events of an Observable<T> sharing
+ * the same key, as returned by Observable.groupBy.
+ */
+export class GroupedObservable<K, T> extends Observable<T> {
+    constructor(
+        readonly key: K,
+        executor: (trigger: Listener<T>,
+                   done: Signal,
+                   fail: Listener<any>) => Signal | void
+    ) {
+        super(executor);
+    }
+}
+
+/**
+ * A ReadableObservable<T> triggers the chunks of a Node.js Readable stream, as
+ * returned by Observable.fromReadable. Pausing it pauses the stream.
+ */
+export class ReadableObservable<T> extends Observable<T> {
+    constructor(private readonly _stream: ReadableLike) {
+        super((trigger, done, fail) => {
+            const handlers: [EventName, (...args: any[]) => void][] = [
+                ["data", trigger],
+                ["end", done],
+                ["close", done],
+                ["error", fail]
+            ];
+            handlers.forEach(([name, handler]) => _stream.on(name, handler));
+            return () => {
+                handlers.forEach(([name, handler]) =>
+                    _stream.removeListener(name, handler));
+                // rather than letting the stream flow without listeners.
+                _stream.pause();
+            };
+        });
+    }
+
+    pause(): void {
+        this._stream.pause();
+    }
+    resume(): void {
+        this._stream.resume();
+    }
+}
+
+/**
+ * A LazyObservable<T> only runs its executor once it has a listener, as
+ * returned by lazy creation functions such as Observable.fromIterable. The
+ * executor runs asynchronously, so that every listener attaching
+ * synchronously along with the first one (such as a chain of operators)
+ * receives all events. The LazyObservable fails if its executor throws.
+ */
+export class LazyObservable<T> extends Observable<T> {
+    private _start?: Signal;
+
+    constructor(
+        executor: (trigger: Listener<T>,
+                   done: Signal,
+                   fail: Listener<any>) => Signal | void
+    ) {
+        // `this` cannot be used until super() returns.
+        let start: Signal = () => { };
+        super((trigger, done, fail) => {
+            let stopped = false;
+            let teardown: Signal | void;
+            start = () => {
+                if (stopped) return;
+                try {
+                    teardown = executor(trigger, done, fail);
+                } catch (e) {
+                    fail(e);
+                }
+                // the executor might have finished synchronously.
+                if (stopped && teardown) teardown();
+            };
+            return () => {
+                stopped = true;
+                if (teardown) teardown();
+            };
+        });
+        this._start = start;
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        const detach = super._listen(listener, resolve, reject);
+        const start = this._start;
+        if (start && !this.isDone()) {
+            this._start = undefined;
+            Promise.resolve().then(start);
+        }
+        return detach;
+    }
+}
+
+/**
+ * A DeferredObservable<T> calls its factory for each of its listeners, and
+ * triggers the events of the Observable created for a listener to that
+ * listener only, as returned by Observable.defer.
+ */
+export class DeferredObservable<T> extends Observable<T> {
+    constructor(private readonly _factory: () => Observable<T>) {
+        super(() => { });
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        let source: Observable<T>;
+        try {
+            source = this._factory();
+        } catch (e) {
+            reject(e);
+            return () => { };
+        }
+        const handle = source.subscribe({
+            next: listener,
+            complete: resolve,
+            error: reject
+        });
+        return () => handle.unsubscribe();
     }
 }
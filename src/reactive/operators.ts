@@ -0,0 +1,417 @@
+"use strict";
+
+// Standalone operators, for use with Observable.pipe. Each operator behaves
+// as the Observable method of the same name, and applies to any
+// ObservableLike, returning an Observable; operators which take other
+// Observables accept any ObservableLike as well.
+//
+// Custom operators are plain functions of type OperatorFunction, and compose
+// with the built-in ones:
+//
+//     const evens = () => filter((n: number) => n % 2 === 0);
+//     observable.pipe(evens(), map(n => n / 2));
+
+import { Result } from "../polymorphic/result";
+import { AsyncPredicate } from "../predicate";
+import { AbortSignalLike } from "./dom";
+import { TapObserver } from "./handle";
+import {
+    GroupedObservable, Observable, ObservableLike, OperatorFunction, Signal,
+    ThrottleOptions, TimeInterval, Timestamped
+} from "./observable";
+import { Scheduler, defaultScheduler } from "./scheduler";
+
+export type MonoTypeOperatorFunction<T> = OperatorFunction<T, T>;
+
+/**
+ * Composes operators, from left to right, into a single operator.
+ */
+export function pipe<T>(): MonoTypeOperatorFunction<T>;
+export function pipe<T, A>(op1: OperatorFunction<T, A>): OperatorFunction<T, A>;
+export function pipe<T, A, B>(
+    op1: OperatorFunction<T, A>,
+    op2: OperatorFunction<A, B>
+): OperatorFunction<T, B>;
+export function pipe<T, A, B, C>(
+    op1: OperatorFunction<T, A>,
+    op2: OperatorFunction<A, B>,
+    op3: OperatorFunction<B, C>
+): OperatorFunction<T, C>;
+export function pipe<T, A, B, C, D>(
+    op1: OperatorFunction<T, A>,
+    op2: OperatorFunction<A, B>,
+    op3: OperatorFunction<B, C>,
+    op4: OperatorFunction<C, D>
+): OperatorFunction<T, D>;
+export function pipe<T, A, B, C, D, E>(
+    op1: OperatorFunction<T, A>,
+    op2: OperatorFunction<A, B>,
+    op3: OperatorFunction<B, C>,
+    op4: OperatorFunction<C, D>,
+    op5: OperatorFunction<D, E>
+): OperatorFunction<T, E>;
+export function pipe(
+    ...operators: OperatorFunction<any, any>[]
+): OperatorFunction<any, any>;
+export function pipe(
+    ...operators: OperatorFunction<any, any>[]
+): OperatorFunction<any, any> {
+    return source => toObservable(source).pipe(...operators);
+}
+
+export function map<T, R>(mapper: (obj: T) => R): OperatorFunction<T, R> {
+    return source => toObservable(source).map(mapper);
+}
+
+export function filter<T, R extends T>(
+    predicate: (obj: T) => obj is R): OperatorFunction<T, R>;
+export function filter<T>(
+    predicate: AsyncPredicate<T>): MonoTypeOperatorFunction<T>;
+export function filter<T>(
+    predicate: AsyncPredicate<T>
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).filter(predicate);
+}
+
+export function filterWhere<T, R extends T>(
+    predicate: (obj: T) => obj is R
+): OperatorFunction<T, R> {
+    return source => toObservable(source).filterWhere(predicate);
+}
+
+export function withConditions<T>(
+    ...conditions: AsyncPredicate<T>[]
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).withConditions(...conditions);
+}
+
+export function whileConditions<T>(
+    ...conditions: ((obj: T) => boolean)[]
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).whileConditions(...conditions);
+}
+
+export function flatMap<T, R>(
+    mapper: (obj: T) => ObservableLike<R>
+): OperatorFunction<T, R> {
+    return source => toObservable(source)
+        .flatMap(obj => toObservable(mapper(obj)));
+}
+
+export function mergeMap<T, R>(
+    mapper: (obj: T) => ObservableLike<R>,
+    concurrent = Infinity
+): OperatorFunction<T, R> {
+    return source => toObservable(source)
+        .mergeMap(obj => toObservable(mapper(obj)), concurrent);
+}
+
+export function concatMap<T, R>(
+    mapper: (obj: T) => ObservableLike<R>
+): OperatorFunction<T, R> {
+    return source => toObservable(source)
+        .concatMap(obj => toObservable(mapper(obj)));
+}
+
+export function switchMap<T, R>(
+    mapper: (obj: T) => ObservableLike<R>
+): OperatorFunction<T, R> {
+    return source => toObservable(source)
+        .switchMap(obj => toObservable(mapper(obj)));
+}
+
+export function exhaustMap<T, R>(
+    mapper: (obj: T) => ObservableLike<R>
+): OperatorFunction<T, R> {
+    return source => toObservable(source)
+        .exhaustMap(obj => toObservable(mapper(obj)));
+}
+
+// Without initialValue, reducer is the only argument of scan and reduce.
+export function scan<T>(
+    reducer: (v1: T, v2: T) => T): MonoTypeOperatorFunction<T>;
+export function scan<T, R>(
+    initialValue: R, reducer: (v1: R, v2: T) => R): OperatorFunction<T, R>;
+export function scan<T, R>(
+    initialValueOrReducer: R | ((v1: T, v2: T) => T),
+    reducer?: (v1: R, v2: T) => R
+): OperatorFunction<T, any> {
+    return source => reducer ?
+        toObservable(source).scan(initialValueOrReducer as R, reducer) :
+        toObservable(source).scan(
+            initialValueOrReducer as (v1: T, v2: T) => T);
+}
+
+export function reduce<T>(
+    reducer: (v1: T, v2: T) => T): MonoTypeOperatorFunction<T>;
+export function reduce<T, R>(
+    initialValue: R, reducer: (v1: R, v2: T) => R): OperatorFunction<T, R>;
+export function reduce<T, R>(
+    initialValueOrReducer: R | ((v1: T, v2: T) => T),
+    reducer?: (v1: R, v2: T) => R
+): OperatorFunction<T, any> {
+    return source => reducer ?
+        toObservable(source).reduce(initialValueOrReducer as R, reducer) :
+        toObservable(source).reduce(
+            initialValueOrReducer as (v1: T, v2: T) => T);
+}
+
+export function bufferCount<T>(
+    size: number, every = size): OperatorFunction<T, T[]> {
+    return source => toObservable(source).bufferCount(size, every);
+}
+
+export function bufferTime<T>(
+    periodMs: number,
+    maxSize = Infinity,
+    scheduler: Scheduler = defaultScheduler
+): OperatorFunction<T, T[]> {
+    return source => toObservable(source)
+        .bufferTime(periodMs, maxSize, scheduler);
+}
+
+export function bufferWhen<T>(
+    notifier: ObservableLike<any>): OperatorFunction<T, T[]> {
+    return source => toObservable(source)
+        .bufferWhen(toObservable(notifier));
+}
+
+export function windowCount<T>(
+    size: number, every = size): OperatorFunction<T, Observable<T>> {
+    return source => toObservable(source).windowCount(size, every);
+}
+
+export function windowTime<T>(
+    periodMs: number,
+    maxSize = Infinity,
+    scheduler: Scheduler = defaultScheduler
+): OperatorFunction<T, Observable<T>> {
+    return source => toObservable(source)
+        .windowTime(periodMs, maxSize, scheduler);
+}
+
+export function windowWhen<T>(
+    notifier: ObservableLike<any>): OperatorFunction<T, Observable<T>> {
+    return source => toObservable(source)
+        .windowWhen(toObservable(notifier));
+}
+
+export function pairwise<T>(): OperatorFunction<T, [T, T]> {
+    return source => toObservable(source).pairwise();
+}
+
+export function groupBy<T, K>(
+    keyFn: (obj: T) => K
+): OperatorFunction<T, GroupedObservable<K, T>> {
+    return source => toObservable(source).groupBy(keyFn);
+}
+
+export function concat<T>(
+    ...others: ObservableLike<T>[]): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source)
+        .concat(...others.map(other => toObservable(other)));
+}
+
+export function withLatestFrom<T, A>(
+    a: ObservableLike<A>): OperatorFunction<T, [T, A]>;
+export function withLatestFrom<T, A, B>(
+    a: ObservableLike<A>, b: ObservableLike<B>
+): OperatorFunction<T, [T, A, B]>;
+export function withLatestFrom<T, A, B, C>(
+    a: ObservableLike<A>, b: ObservableLike<B>, c: ObservableLike<C>
+): OperatorFunction<T, [T, A, B, C]>;
+export function withLatestFrom<T>(
+    ...others: ObservableLike<any>[]): OperatorFunction<T, any[]>;
+export function withLatestFrom<T>(
+    ...others: ObservableLike<any>[]
+): OperatorFunction<T, any> {
+    return source => toObservable(source)
+        .withLatestFrom(...others.map(other => toObservable(other)));
+}
+
+export function firstN<T>(n: number): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).firstN(n);
+}
+
+export function firstT<T>(
+    timeoutMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).firstT(timeoutMs, scheduler);
+}
+
+export function skipN<T>(n: number): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).skipN(n);
+}
+
+export function skipT<T>(
+    t: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).skipT(t, scheduler);
+}
+
+export function skipLast<T>(n: number): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).skipLast(n);
+}
+
+export function skipWhile<T>(
+    predicate: (obj: T) => boolean): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).skipWhile(predicate);
+}
+
+export function takeLast<T>(n: number): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).takeLast(n);
+}
+
+export function takeWhile<T>(
+    predicate: (obj: T) => boolean,
+    inclusive = false
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).takeWhile(predicate, inclusive);
+}
+
+export function takeUntil<T>(
+    notifier: ObservableLike<any>): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).takeUntil(toObservable(notifier));
+}
+
+export function takeUntilSignal<T>(
+    signal: AbortSignalLike): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).takeUntilSignal(signal);
+}
+
+export function distinctUntilChanged<T>(
+    equals?: (previous: T, current: T) => boolean
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).distinctUntilChanged(equals);
+}
+
+export function distinct<T, K>(
+    keyFn?: (obj: T) => K,
+    flush?: ObservableLike<any>
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source)
+        .distinct(keyFn, flush && toObservable(flush));
+}
+
+export function startWith<T>(...values: T[]): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).startWith(...values);
+}
+
+export function endWith<T>(...values: T[]): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).endWith(...values);
+}
+
+export function withTimeout<T>(
+    timeoutMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).withTimeout(timeoutMs, scheduler);
+}
+
+export function catchError<T, R>(
+    handler: (err: any) => ObservableLike<R>
+): OperatorFunction<T, T | R> {
+    return source => toObservable(source)
+        .catchError(err => toObservable(handler(err)));
+}
+
+export function retry<T>(count: number): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).retry(count);
+}
+
+export function retryWhen<T>(
+    notifier: (err: any, attempt: number) => ObservableLike<any>
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source)
+        .retryWhen((err, attempt) => toObservable(notifier(err, attempt)));
+}
+
+export function onErrorResumeNext<T>(
+    ...others: ObservableLike<T>[]): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source)
+        .onErrorResumeNext(...others.map(other => toObservable(other)));
+}
+
+export function finalize<T>(action: Signal): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).finalize(action);
+}
+
+export function tap<T>(
+    observer: TapObserver<T> | ((value: T) => void)
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).tap(observer);
+}
+
+export function materialize<T>(): OperatorFunction<T, Result<T>> {
+    return source => toObservable(source).materialize();
+}
+
+export function dematerialize<T>(): OperatorFunction<Result<T>, T> {
+    return source => toObservable(source).dematerialize();
+}
+
+export function debounceTime<T>(
+    dueMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).debounceTime(dueMs, scheduler);
+}
+
+export function throttleTime<T>(
+    durationMs: number,
+    options: ThrottleOptions = {},
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source)
+        .throttleTime(durationMs, options, scheduler);
+}
+
+export function sampleTime<T>(
+    periodMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).sampleTime(periodMs, scheduler);
+}
+
+export function auditTime<T>(
+    durationMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).auditTime(durationMs, scheduler);
+}
+
+export function delay<T>(
+    delayMs: number,
+    scheduler: Scheduler = defaultScheduler
+): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).delay(delayMs, scheduler);
+}
+
+export function timeInterval<T>(
+    scheduler: Scheduler = defaultScheduler
+): OperatorFunction<T, TimeInterval<T>> {
+    return source => toObservable(source).timeInterval(scheduler);
+}
+
+export function timestamp<T>(
+    scheduler: Scheduler = defaultScheduler
+): OperatorFunction<T, Timestamped<T>> {
+    return source => toObservable(source).timestamp(scheduler);
+}
+
+export function share<T>(): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).share();
+}
+
+export function shareReplay<T>(
+    bufferSize = Infinity): MonoTypeOperatorFunction<T> {
+    return source => toObservable(source).shareReplay(bufferSize);
+}
+
+// Adapts any ObservableLike to an Observable, so that operators can reuse the
+// methods of Observable.
+function toObservable<T>(source: ObservableLike<T>): Observable<T> {
+    return Observable.from(source);
+}
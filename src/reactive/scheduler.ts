@@ -0,0 +1,41 @@
+"use strict";
+
+import { Signal } from "./observable";
+
+/**
+ * Provides time to time-based operators. Abstracting over time allows those
+ * operators to run deterministically in tests, e.g. using a TestScheduler.
+ */
+export interface Scheduler {
+    /**
+     * @returns  the current time, in milliseconds.
+     */
+    now(): number;
+
+    /**
+     * Runs action once, after delayMs.
+     * @returns  a Signal cancelling the action if it has not yet run.
+     */
+    schedule(action: Signal, delayMs: number): Signal;
+
+    /**
+     * Runs action every periodMs.
+     * @returns  a Signal cancelling further runs of action.
+     */
+    scheduleInterval(action: Signal, periodMs: number): Signal;
+}
+
+/**
+ * The Scheduler used by default, relying on the real clock and timers.
+ */
+export const defaultScheduler: Scheduler = {
+    now: () => Date.now(),
+    schedule: (action: Signal, delayMs: number) => {
+        const handle = setTimeout(action, delayMs);
+        return () => clearTimeout(handle);
+    },
+    scheduleInterval: (action: Signal, periodMs: number) => {
+        const handle = setInterval(action, periodMs);
+        return () => clearInterval(handle);
+    }
+};
@@ -0,0 +1,292 @@
+"use strict";
+
+import { Listener, Observable, Signal } from "./observable";
+import { Scheduler } from "./scheduler";
+
+/**
+ * A single event of an Observable, at a given virtual time.
+ */
+export type MarbleEvent<T> =
+    { time: number, kind: "next", value: T } |
+    { time: number, kind: "done" } |
+    { time: number, kind: "fail", error: any };
+
+// Implementation detail of TestScheduler
+type ScheduledAction = { time: number, id: number, action: Signal };
+
+/**
+ * Parses a marble diagram into the events it describes. Each character of
+ * the diagram takes one frame of frameMs:
+ *  - "-" is a frame without events.
+ *  - "|" is completion.
+ *  - "#" is failure, with `error`.
+ *  - "(...)" groups events happening within the same frame.
+ *  - "^" marks time zero (for hot observables); preceding frames have a
+ *    negative time.
+ *  - spaces are ignored.
+ *  - any other character is an event, whose value is looked up in `values`,
+ *    or is the character itself if not found.
+ */
+export function parseMarbles(
+    marbles: string,
+    values?: undefined,
+    error?: any,
+    frameMs?: number
+): MarbleEvent<string>[];
+export function parseMarbles<T>(
+    marbles: string,
+    values: { [key: string]: T },
+    error?: any,
+    frameMs?: number
+): MarbleEvent<T>[];
+export function parseMarbles(
+    marbles: string,
+    values: { [key: string]: any } = {},
+    error: any = "error",
+    frameMs = 1
+): MarbleEvent<any>[] {
+    const events: MarbleEvent<any>[] = [];
+    let frame = 0;
+    let zero = 0;
+    let inGroup = false;
+
+    for (const c of marbles) {
+        const time = frame * frameMs;
+        switch (c) {
+            case " ":
+                continue;
+            case "(":
+                inGroup = true;
+                continue;
+            case ")":
+                inGroup = false;
+                break;
+            case "^":
+                zero = time;
+                break;
+            case "-":
+                break;
+            case "|":
+                events.push({ time, kind: "done" });
+                break;
+            case "#":
+                events.push({ time, kind: "fail", error });
+                break;
+            default: {
+                const value = c in values ? values[c] : c;
+                events.push({ time, kind: "next", value });
+                break;
+            }
+        }
+        if (!inGroup) ++frame;
+    }
+    events.forEach(e => e.time -= zero);
+    return events;
+}
+
+/**
+ * A Scheduler running on virtual time, which only passes when explicitly
+ * advanced. Allows testing time-based operators deterministically.
+ */
+export class TestScheduler implements Scheduler {
+    private time = 0;
+    private nextId = 0;
+    private queue: ScheduledAction[] = [];
+
+    /**
+     * @param frameMs  virtual time taken by each frame of a marble diagram.
+     * @param maxFrames  number of frames after which flush() stops.
+     */
+    constructor(
+        readonly frameMs = 1,
+        private readonly maxFrames = 1000
+    ) { }
+
+    now(): number {
+        return this.time;
+    }
+
+    schedule(action: Signal, delayMs: number): Signal {
+        const item = { time: this.time + delayMs, id: this.nextId++, action };
+        this.queue.push(item);
+        return () => {
+            const index = this.queue.indexOf(item);
+            if (index >= 0) this.queue.splice(index, 1);
+        };
+    }
+
+    scheduleInterval(action: Signal, periodMs: number): Signal {
+        let cancel: Signal;
+        const repeat = () => {
+            cancel = this.schedule(repeat, periodMs);
+            action();
+        };
+        cancel = this.schedule(repeat, periodMs);
+        return () => cancel();
+    }
+
+    /**
+     * Runs all actions scheduled up to, and including, time.
+     */
+    advanceTo(time: number): void {
+        for (;;) {
+            const next = this.peek();
+            if (!next || next.time > time) break;
+
+            this.queue.splice(this.queue.indexOf(next), 1);
+            this.time = next.time;
+            next.action();
+        }
+        this.time = Math.max(this.time, time);
+    }
+
+    /**
+     * Runs all actions scheduled within the next ms.
+     */
+    advanceBy(ms: number): void {
+        this.advanceTo(this.time + ms);
+    }
+
+    /**
+     * @returns  the number of actions scheduled, which neither ran nor were
+     *           cancelled yet.
+     */
+    pendingActions(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Runs all scheduled actions, up to maxFrames frames.
+     */
+    flush(): void {
+        this.advanceTo(Math.max(this.time, this.maxFrames * this.frameMs));
+    }
+
+    /**
+     * Creates an Observable replaying the events of a marble diagram to each
+     * of its listeners, relative to the time the listener attaches.
+     */
+    cold(marbles: string, values?: undefined, error?: any): Observable<string>;
+    cold<T>(
+        marbles: string,
+        values: { [key: string]: T },
+        error?: any
+    ): Observable<T>;
+    cold(
+        marbles: string,
+        values: { [key: string]: any } = {},
+        error?: any
+    ): Observable<any> {
+        const events = parseMarbles(marbles, values, error, this.frameMs);
+        return new ColdObservable(this, events);
+    }
+
+    /**
+     * Creates an Observable replaying the events of a marble diagram,
+     * relative to the virtual time zero (marked by "^"). Events scheduled
+     * before the current time are not replayed.
+     */
+    hot(marbles: string, values?: undefined, error?: any): Observable<string>;
+    hot<T>(
+        marbles: string,
+        values: { [key: string]: T },
+        error?: any
+    ): Observable<T>;
+    hot(
+        marbles: string,
+        values: { [key: string]: any } = {},
+        error?: any
+    ): Observable<any> {
+        const events = parseMarbles(marbles, values, error, this.frameMs)
+            .filter(e => e.time >= this.time);
+        return this.fromEvents(events, 0);
+    }
+
+    /**
+     * Records the events of observable, along with the virtual time at
+     * which they happen.
+     *
+     * @returns  a Promise of all recorded events, resolving once observable
+     *           is done or failed.
+     */
+    record<T>(observable: Observable<T>): Promise<MarbleEvent<T>[]> {
+        const events: MarbleEvent<T>[] = [];
+        // an Observer is notified of completion synchronously, at the virtual
+        // time it happens.
+        return new Promise(resolve => observable.subscribe({
+            next: value => {
+                events.push({ time: this.time, kind: "next", value });
+            },
+            complete: () => {
+                events.push({ time: this.time, kind: "done" });
+                resolve(events);
+            },
+            error: error => {
+                events.push({ time: this.time, kind: "fail", error });
+                resolve(events);
+            }
+        }));
+    }
+
+    private fromEvents<T>(
+        events: MarbleEvent<T>[],
+        start: number
+    ): Observable<T> {
+        return new Observable<T>((trigger, done, fail) => {
+            const cancels = events.map(e => this.schedule(() => {
+                switch (e.kind) {
+                    case "next": trigger(e.value); break;
+                    case "done": done(); break;
+                    case "fail": fail(e.error); break;
+                }
+            }, start + e.time - this.time));
+            return () => cancels.forEach(cancel => cancel());
+        });
+    }
+
+    private peek(): ScheduledAction | undefined {
+        let next: ScheduledAction | undefined;
+        for (const item of this.queue) {
+            if (!next || item.time < next.time ||
+                (item.time === next.time && item.id < next.id)) {
+                next = item;
+            }
+        }
+        return next;
+    }
+}
+
+// Implementation detail of TestScheduler.cold: replays events to each
+// listener, relative to the time it attaches.
+class ColdObservable<T> extends Observable<T> {
+    constructor(
+        private readonly scheduler: Scheduler,
+        private readonly events: MarbleEvent<T>[]
+    ) {
+        super(() => { });
+    }
+
+    protected _listen(
+        listener: Listener<T>,
+        resolve: Signal,
+        reject: (err: any) => void
+    ): Signal {
+        let cancels: Signal[] = [];
+        const stop = () => cancels.forEach(cancel => cancel());
+        cancels = this.events.map(e => this.scheduler.schedule(() => {
+            switch (e.kind) {
+                case "next":
+                    try {
+                        listener(e.value);
+                    } catch (err) {
+                        stop();
+                        reject(err);
+                    }
+                    break;
+                case "done": stop(); resolve(); break;
+                case "fail": stop(); reject(e.error); break;
+            }
+        }, e.time));
+        return stop;
+    }
+}
@@ -0,0 +1,97 @@
+"use strict";
+
+import { ListenerOptions } from "../src/reactive/dom";
+import { Observable } from "../src/reactive/observable";
+
+describe("fromEventTarget", function() {
+    // jest's environment lacks EventTarget, so we use a minimal one,
+    // identifying listeners by their type, function and capture flag.
+    class TestTarget {
+        private entries: { type: string, listener: any, capture: boolean, once: boolean }[] = [];
+        aborted = false;
+
+        get listeners(): number {
+            return this.entries.length;
+        }
+        addEventListener(type: string, listener: any, options: ListenerOptions = {}): void {
+            const capture = !!options.capture;
+            if (this.find(type, listener, capture) >= 0) return;
+            this.entries.push({ type, listener, capture, once: !!options.once });
+        }
+        removeEventListener(type: string, listener: any, options: ListenerOptions = {}): void {
+            const index = this.find(type, listener, !!options.capture);
+            if (index >= 0) this.entries.splice(index, 1);
+        }
+        dispatch(type: string): void {
+            for (const entry of this.entries.filter(e => e.type === type)) {
+                if (entry.once) this.removeEventListener(type, entry.listener, entry);
+                entry.listener({ type });
+            }
+        }
+        abort(): void {
+            this.aborted = true;
+            this.dispatch("abort");
+        }
+        private find(type: string, listener: any, capture: boolean): number {
+            return this.entries.findIndex(e =>
+                e.type === type && e.listener === listener && e.capture === capture);
+        }
+    }
+
+    it("triggers events until its listener is removed", async function() {
+        const target = new TestTarget();
+        const types: string[] = [];
+        const events = Observable.fromEventTarget<{ type: string }>(target, "ping")
+            .subscribe(unsubscribe => event => {
+                types.push(event.type);
+                if (types.length === 2) unsubscribe();
+            });
+
+        target.dispatch("ping");
+        target.dispatch("ping");
+        target.dispatch("ping");
+
+        await events;
+        expect(types).toEqual(["ping", "ping"]);
+        expect(target.listeners).toBe(0);
+    });
+
+    it("is done after the first event with once", async function() {
+        const target = new TestTarget();
+        const result = Observable.fromEventTarget(target, "ping", { once: true }).collect();
+
+        target.dispatch("ping");
+        target.dispatch("ping");
+
+        expect((await result).length).toBe(1);
+        expect(target.listeners).toBe(0);
+    });
+
+    it("is done once its AbortSignal is aborted", async function() {
+        const target = new TestTarget();
+        const signal = new TestTarget();
+        const result = Observable.fromEventTarget(target, "ping",
+            { capture: true, signal }).collect();
+
+        target.dispatch("ping");
+        signal.abort();
+        target.dispatch("ping");
+
+        expect((await result).length).toBe(1);
+        expect(target.listeners).toBe(0);
+
+        const aborted = Observable.fromEventTarget(target, "ping", { signal });
+        expect(aborted.isDone()).toBe(true);
+        expect(target.listeners).toBe(0);
+    });
+
+    it("observes the abort events of a signal", async function() {
+        const signal = new TestTarget();
+        const result = Observable.fromEventTarget<{ type: string }>(signal, "abort", { once: true })
+            .map(event => event.type).collect();
+
+        signal.abort();
+
+        expect(await result).toEqual(["abort"]);
+    });
+});
@@ -0,0 +1,54 @@
+"use strict";
+
+import { named, every, some, not, oneOf, noneOf, map, failures, Report } from "../src/explain";
+import { isString, inRange } from "../src/predicate";
+
+describe("explainable predicates", function() {
+    const adult = named("adult", (age: number) => age >= 18);
+    const senior = named("senior", (age: number) => age >= 65);
+
+    it("are callable as plain predicates", function() {
+        const working = every(adult, not(senior));
+        expect([10, 30, 70].filter(working)).toEqual([30]);
+        expect(some(adult, senior)(10)).toBe(false);
+        expect(oneOf(adult, senior)(70)).toBe(false);
+        expect(noneOf(adult, senior)(10)).toBe(true);
+    });
+
+    it("report the evaluation of each sub-predicate", function() {
+        const working = named("working age", every(adult, not(senior)));
+        const report = working.explain(70);
+
+        expect(report).toEqual({
+            label: "working age", kind: "every", passed: false, children: [
+                { label: "adult", kind: "leaf", passed: true, children: [] },
+                {
+                    label: "not senior", kind: "not", passed: false, children: [
+                        { label: "senior", kind: "leaf", passed: true, children: [] }
+                    ]
+                }
+            ]
+        });
+    });
+
+    it("label plain predicates by their function name", function() {
+        expect(every(isString).explain(1).children[0].label).toBe("isString");
+    });
+
+    it("list the most specific failures", function() {
+        type Person = { name: any, age: number };
+        const valid = every<Person>(
+            map((p: Person) => p.name, named("name is a string", isString)),
+            map((p: Person) => p.age, named("age in range", inRange(0, 150))),
+            noneOf(named("is anonymous", (p: Person) => p.name === "")));
+
+        const labels = (r: Report) => failures(r).map(f => f.label);
+
+        expect(labels(valid.explain({ name: "x", age: 30 }))).toEqual([]);
+        expect(labels(valid.explain({ name: 1, age: 200 })))
+            .toEqual(["name is a string", "age in range"]);
+        expect(labels(valid.explain({ name: "", age: 30 })))
+            .toEqual(["not is anonymous"]);
+        expect(labels(oneOf(adult, senior).explain(70))).toEqual(["oneOf"]);
+    });
+});
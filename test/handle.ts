@@ -0,0 +1,37 @@
+"use strict";
+
+import { CompositeHandle, SubscriptionHandle } from "../src/reactive/handle";
+
+describe("CompositeHandle", function() {
+    it("unsubscribes all children once", function() {
+        const calls: string[] = [];
+        const child = new SubscriptionHandle(() => calls.push("child"));
+        const composite = new CompositeHandle(child, () => calls.push("signal"));
+        composite.add(() => calls.push("added"));
+
+        composite.unsubscribe();
+        composite.unsubscribe();
+
+        expect(calls).toEqual(["child", "signal", "added"]);
+        expect(child.closed).toBe(true);
+        expect(composite.closed).toBe(true);
+    });
+
+    it("unsubscribes children added once closed", function() {
+        const composite = new CompositeHandle();
+        composite.unsubscribe();
+
+        const child = composite.add(new SubscriptionHandle(() => { }));
+        expect((child as SubscriptionHandle).closed).toBe(true);
+    });
+
+    it("removes children without unsubscribing them", function() {
+        const child = new SubscriptionHandle(() => { });
+        const composite = new CompositeHandle(child);
+
+        composite.remove(child);
+        composite.unsubscribe();
+
+        expect(child.closed).toBe(false);
+    });
+});
@@ -0,0 +1,172 @@
+"use strict";
+
+import {
+    InstrumentationEvent, Leak, addInstrumentationHook, detectLeaks
+} from "../src/reactive/instrumentation";
+import { Observable, Listener, Signal } from "../src/reactive/observable";
+import { TestScheduler } from "../src/reactive/testing";
+
+
+function getTornDown<T>(name: string): { o: Observable<T>, t: Listener<T>, d: Signal } {
+    let t: Listener<T>;
+    let d: Signal;
+    return {
+        o: new Observable<T>((trigger, done) => {
+            t = trigger;
+            d = done;
+            return () => { };
+        }).named(name),
+        t: t!,
+        d: d!
+    };
+}
+
+describe("instrumentation", function() {
+    let removeHook: Signal;
+    let events: string[];
+    beforeEach(function() {
+        events = [];
+        removeHook = addInstrumentationHook((event: InstrumentationEvent) => {
+            const name = event.observable.name;
+            if (!name) return;
+            switch (event.kind) {
+                case "listen":
+                case "unlisten":
+                    events.push(`${name} ${event.kind} ${event.listeners}`);
+                    break;
+                case "next":
+                    events.push(`${name} next ${event.value}`);
+                    break;
+                case "fail":
+                    events.push(`${name} fail ${event.error}`);
+                    break;
+                default:
+                    events.push(`${name} ${event.kind}`);
+            }
+        });
+    });
+    afterEach(function() {
+        removeHook();
+    });
+
+    it("names Observables", function() {
+        const obs = new Observable<number>(() => { });
+        expect(obs.name).toBeUndefined();
+        expect(obs.named("numbers")).toBe(obs);
+        expect(obs.name).toBe("numbers");
+    });
+
+    it("reports listeners, events and completion", async function() {
+        const obs = getTornDown<number>("source");
+        const doubled = obs.o.map(n => n * 2).named("doubled");
+        const result = doubled.forEach(() => { });
+        doubled.forEach(() => { });
+
+        obs.t(1);
+        obs.d();
+        await result;
+
+        expect(events).toEqual([
+            "source listen 1",
+            "doubled listen 1",
+            "doubled listen 2",
+            "source next 1",
+            "doubled next 2",
+            "source done",
+            "doubled done"
+        ]);
+    });
+
+    it("reports failures once", function() {
+        let fail: (err: any) => void;
+        const obs = new Observable<number>((_, __, f) => { fail = f; }).named("source");
+        obs.forEach(() => { }).catch(() => { });
+
+        fail!("boom");
+        fail!("again");
+
+        expect(events).toEqual(["source listen 1", "source fail boom"]);
+    });
+
+    it("reports unsubscriptions tearing Observables down", function() {
+        const obs = getTornDown<number>("source");
+        obs.o.firstN(1).forEach(() => { });
+
+        obs.t(1);
+
+        expect(events).toEqual([
+            "source listen 1",
+            "source next 1",
+            "source unlisten 0",
+            "source done"
+        ]);
+    });
+
+    it("stops reporting once the hook is removed", function() {
+        const obs = getTornDown<number>("source");
+        removeHook();
+
+        obs.o.forEach(() => { });
+        obs.t(1);
+
+        expect(events).toEqual([]);
+    });
+});
+
+describe("detectLeaks", function() {
+    let scheduler: TestScheduler;
+    let leaks: Leak[];
+    let stop: Signal;
+    beforeEach(function() {
+        scheduler = new TestScheduler();
+        leaks = [];
+        stop = detectLeaks({
+            timeoutMs: 100,
+            report: leak => leaks.push(leak),
+            scheduler
+        });
+    });
+    afterEach(function() {
+        stop();
+    });
+
+    it("reports Observables still listened to after the timeout", function() {
+        const obs = getTornDown<number>("leaky");
+        obs.o.forEach(() => { });
+        scheduler.advanceBy(50);
+        obs.o.forEach(() => { });
+
+        scheduler.advanceBy(49);
+        expect(leaks).toEqual([]);
+        scheduler.advanceBy(1);
+        scheduler.advanceBy(1000);
+
+        expect(leaks).toEqual([
+            { observable: obs.o, name: "leaky", listeners: 2, ageMs: 100 }
+        ]);
+    });
+
+    it("ignores Observables finished or unsubscribed in time", function() {
+        const finished = getTornDown<number>("finished");
+        const unsubscribed = getTornDown<number>("unsubscribed");
+        finished.o.forEach(() => { });
+        unsubscribed.o.firstN(1).forEach(() => { });
+
+        scheduler.advanceBy(50);
+        finished.d();
+        unsubscribed.t(1);
+        scheduler.advanceBy(1000);
+
+        expect(leaks).toEqual([]);
+    });
+
+    it("stops detecting once stopped", function() {
+        const obs = getTornDown<number>("leaky");
+        obs.o.forEach(() => { });
+
+        stop();
+        scheduler.advanceBy(1000);
+
+        expect(leaks).toEqual([]);
+    });
+});
@@ -0,0 +1,195 @@
+"use strict";
+
+import { Observer, Unsubscribable } from "../src/reactive/handle";
+import { observableSymbol } from "../src/reactive/interop";
+import { Observable, ObservableLike } from "../src/reactive/observable";
+
+// A minimal reference implementation of the TC39 Observable proposal, as
+// implemented by other reactive libraries.
+class RefObservable<T> {
+    constructor(private readonly subscriber: (observer: Observer<T>) => (() => void) | void) { }
+
+    static from<T>(input: any): RefObservable<T> {
+        const subscribable = input[observableSymbol]();
+        return new RefObservable<T>(observer => {
+            const subscription = subscribable.subscribe(observer);
+            return () => subscription.unsubscribe();
+        });
+    }
+
+    subscribe(observer: Observer<T>): Unsubscribable & { closed: boolean } {
+        let cleanup: (() => void) | void;
+        const subscription = {
+            closed: false,
+            unsubscribe() {
+                if (subscription.closed) return;
+                subscription.closed = true;
+                if (cleanup) cleanup();
+            }
+        };
+        const close = () => {
+            const wasClosed = subscription.closed;
+            subscription.unsubscribe();
+            return !wasClosed;
+        };
+        cleanup = this.subscriber({
+            next: value => {
+                if (!subscription.closed && observer.next) observer.next(value);
+            },
+            error: err => {
+                if (close() && observer.error) observer.error(err);
+            },
+            complete: () => {
+                if (close() && observer.complete) observer.complete();
+            }
+        });
+        if (subscription.closed && cleanup) cleanup();
+        return subscription;
+    }
+}
+(RefObservable.prototype as any)[observableSymbol] = function(this: RefObservable<any>) {
+    return this;
+};
+
+describe("interop", function() {
+    it("adopts interop observables, including synchronous ones", async function() {
+        let cleanedUp = false;
+        const ref = new RefObservable<number>(observer => {
+            observer.next!(1);
+            observer.next!(2);
+            observer.complete!();
+            return () => cleanedUp = true;
+        });
+
+        expect(await Observable.from(ref).map(n => n * 2).collect()).toEqual([2, 4]);
+        expect(cleanedUp).toBe(true);
+    });
+
+    it("adopts failures of interop observables", async function() {
+        const ref = new RefObservable<number>(observer => observer.error!("boom"));
+        await expect(Observable.from(ref).collect()).rejects.toBe("boom");
+    });
+
+    it("unsubscribes from interop observables once torn down", async function() {
+        let emit: (n: number) => void = () => { };
+        let cleanedUp = false;
+        const ref = new RefObservable<number>(observer => {
+            emit = n => observer.next!(n);
+            return () => cleanedUp = true;
+        });
+
+        const result = Observable.from(ref).firstN(2).collect();
+        await Promise.resolve();
+        emit(1); emit(2);
+
+        expect(await result).toEqual([1, 2]);
+        expect(cleanedUp).toBe(true);
+    });
+
+    it("is consumed by interop libraries", function() {
+        let trigger: (n: number) => void = () => { };
+        let done: () => void = () => { };
+        const ours = new Observable<number>((t, d) => {
+            trigger = t;
+            done = d;
+        });
+        const seen: any[] = [];
+
+        const subscription = RefObservable.from<number>(ours).subscribe({
+            next: n => seen.push(n),
+            complete: () => seen.push("complete")
+        });
+        trigger(1); trigger(2); done();
+
+        expect(seen).toEqual([1, 2, "complete"]);
+        expect(subscription.closed).toBe(true);
+    });
+
+    it("exposes a Subscribable accepting callbacks", function() {
+        let trigger: (n: number) => void = () => { };
+        const ours = new Observable<number>(t => {
+            trigger = t;
+            return () => { };
+        });
+        const seen: number[] = [];
+
+        const subscribable = (ours as any)[observableSymbol]();
+        expect(subscribable[observableSymbol]()).toBe(subscribable);
+        const subscription = subscribable.subscribe((n: number) => seen.push(n));
+        trigger(1);
+        subscription.unsubscribe();
+        trigger(2);
+
+        expect(seen).toEqual([1]);
+        expect(ours.isDone()).toBe(true);
+    });
+
+    it("round-trips through interop libraries", async function() {
+        const ref = RefObservable.from<number>(Observable.from([1, 2, 3]));
+        expect(await Observable.from(ref).collect()).toEqual([1, 2, 3]);
+    });
+
+    it("creates Observables from promises, iterables and async iterables", async function() {
+        async function* letters() {
+            yield "a";
+            yield "b";
+        }
+
+        expect(await Observable.from(Promise.resolve(1)).collect()).toEqual([1]);
+        expect(await Observable.from([1, 2]).collect()).toEqual([1, 2]);
+        expect(await Observable.from(new Set([3])).collect()).toEqual([3]);
+        expect(await Observable.from(letters()).collect()).toEqual(["a", "b"]);
+    });
+
+    it("adopts promises and async iterables once a listener attaches", async function() {
+        async function* letters() {
+            yield "a";
+            yield "b";
+        }
+
+        const fromPromise = Observable.from(Promise.resolve(1));
+        const fromLetters = Observable.from(letters());
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(await fromPromise.collect()).toEqual([1]);
+        expect(await fromLetters.collect()).toEqual(["a", "b"]);
+    });
+
+    it("returns Observables as-is, and adapts ObservableLikes", async function() {
+        const ours = Observable.from([1]);
+        expect(Observable.from(ours)).toBe(ours);
+
+        let trigger: (n: number) => void = () => { };
+        let done: () => void = () => { };
+        const inner = new Observable<number>((t, d) => {
+            trigger = t;
+            done = d;
+        });
+        // hides everything but the ObservableLike interface.
+        const like: ObservableLike<number> = {
+            forEach: (each, signal) => inner.forEach(each, signal),
+            map<R>(mapper: (obj: number) => R) { return inner.map(mapper); },
+            flatMap<R>(mapper: (obj: number) => Observable<R>) {
+                return inner.flatMap(mapper);
+            },
+            filter: predicate => inner.filter(predicate),
+            reduce<R>(initialValue: R, accumulate: (residue: R, next: number) => R) {
+                return inner.reduce(initialValue, accumulate);
+            },
+            withTimeout: (timeoutMs, scheduler) => inner.withTimeout(timeoutMs, scheduler),
+            withConditions: (...conditions) => inner.withConditions(...conditions),
+            whileConditions: (...conditions) => inner.whileConditions(...conditions),
+            subscribe: executor => inner.subscribe(executor),
+            firstN: n => inner.firstN(n),
+            firstT: (timeoutMs, scheduler) => inner.firstT(timeoutMs, scheduler)
+        };
+
+        const result = Observable.from(like).collect();
+        trigger(1); done();
+        expect(await result).toEqual([1]);
+    });
+
+    it("rejects other inputs", function() {
+        expect(() => Observable.from(42 as any)).toThrow(TypeError);
+    });
+});
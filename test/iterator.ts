@@ -0,0 +1,88 @@
+"use strict";
+
+import { Observable, Listener, Signal } from "../src/reactive/observable";
+import { ObservableAsyncIterator, BufferOverflowError } from "../src/reactive/iterator";
+
+
+describe("ObservableAsyncIterator", function() {
+    function getObservable<T>(): { o: Observable<T>, t: Listener<T>, d: Signal } {
+        let t: Listener<T>;
+        let d: Signal;
+        return {
+            o: new Observable<T>((trigger, done) => {
+                t = trigger;
+                d = done;
+            }),
+            t: t!,
+            d: d!
+        };
+    }
+
+    async function drain<T>(iterator: ObservableAsyncIterator<T>): Promise<T[]> {
+        const values: T[] = [];
+        for await (const value of iterator) {
+            values.push(value);
+        }
+        return values;
+    }
+
+    it("does not skip falsy values", async function() {
+        const obs = getObservable<number | string>();
+        const iterator = new ObservableAsyncIterator(obs.o);
+        obs.t(0); obs.t(""); obs.t(1); obs.d();
+
+        expect(await drain(iterator)).toEqual([0, "", 1]);
+    });
+
+    it("buffers every event by default", async function() {
+        const obs = getObservable<number>();
+        const iterator = new ObservableAsyncIterator(obs.o);
+        obs.t(1); obs.t(2); obs.t(3);
+        expect(iterator.buffered).toBe(3);
+        obs.d();
+
+        expect(await drain(iterator)).toEqual([1, 2, 3]);
+        expect(iterator.dropped).toBe(0);
+    });
+
+    it("fails on overflow of a bounded buffer", async function() {
+        const obs = getObservable<number>();
+        const iterator = new ObservableAsyncIterator(obs.o, { strategy: "bounded", size: 2 });
+        obs.t(1); obs.t(2); obs.t(3);
+
+        expect(obs.o.isDone()).toBe(true);
+        expect(await iterator.next()).toEqual({ done: false, value: 1 });
+        expect(await iterator.next()).toEqual({ done: false, value: 2 });
+        await expect(iterator.next()).rejects.toBeInstanceOf(BufferOverflowError);
+        await expect(iterator.next()).rejects.toHaveProperty("name", "BufferOverflowError");
+    });
+
+    it("drops the oldest events", async function() {
+        const obs = getObservable<number>();
+        const iterator = new ObservableAsyncIterator(obs.o, { strategy: "dropOldest", size: 2 });
+        obs.t(1); obs.t(2); obs.t(3); obs.t(4); obs.d();
+
+        expect(await drain(iterator)).toEqual([3, 4]);
+        expect(iterator.dropped).toBe(2);
+    });
+
+    it("drops the newest events", async function() {
+        const obs = getObservable<number>();
+        const iterator = new ObservableAsyncIterator(obs.o, { strategy: "dropNewest", size: 2 });
+        obs.t(1); obs.t(2); obs.t(3); obs.t(4); obs.d();
+
+        expect(await drain(iterator)).toEqual([1, 2]);
+        expect(iterator.dropped).toBe(2);
+    });
+
+    it("keeps only the latest event", async function() {
+        const obs = getObservable<number>();
+        const iterator = new ObservableAsyncIterator(obs.o, { strategy: "keepLatest" });
+        obs.t(1); obs.t(2); obs.t(3);
+
+        expect(await iterator.next()).toEqual({ done: false, value: 3 });
+        obs.t(4); obs.d();
+        expect(await drain(iterator)).toEqual([4]);
+        expect(iterator.dropped).toBe(2);
+    });
+});
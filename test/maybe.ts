@@ -0,0 +1,60 @@
+"use strict";
+
+import * as Maybe from "../src/polymorphic/maybe";
+import { Option } from "../src/polymorphic/maybe";
+
+
+describe("Maybe", function() {
+    it("treats null and undefined as no value", function() {
+        expect(Maybe.hasValue(undefined)).toBe(false);
+        // tslint:disable-next-line:no-null-keyword
+        expect(Maybe.hasValue(null)).toBe(false);
+        expect(Maybe.hasValue(0)).toBe(true);
+        expect(Maybe.hasValue("")).toBe(true);
+        // tslint:disable-next-line:no-null-keyword
+        expect(Maybe.fromNullable(null)).toBeUndefined();
+    });
+
+    it("chains operations", function() {
+        const half = (n: number): Maybe.Maybe<number> => n % 2 === 0 ? n / 2 : undefined;
+        expect(Maybe.flatMap(Maybe.map(3, n => n + 1), half)).toBe(2);
+        expect(Maybe.flatMap(3, half)).toBeUndefined();
+        expect(Maybe.orElse(undefined, () => 5)).toBe(5);
+        expect(Maybe.toArray(1)).toEqual([1]);
+        expect(Maybe.toArray(undefined)).toEqual([]);
+    });
+
+    it("getOrThrow throws without a value", function() {
+        expect(Maybe.getOrThrow(1)).toBe(1);
+        expect(() => Maybe.getOrThrow(undefined, "missing")).toThrow();
+    });
+
+    it("matches on presence", function() {
+        const describe = (m: Maybe.Maybe<number>) => Maybe.match(m, {
+            some: n => `some ${n}`,
+            none: () => "none"
+        });
+        expect(describe(1)).toBe("some 1");
+        expect(describe(undefined)).toBe("none");
+    });
+
+    it("zips tuples of Maybes", function() {
+        const zipped: Maybe.Maybe<[number, string]> = Maybe.zip(1, "a");
+        expect(zipped).toEqual([1, "a"]);
+        expect(Maybe.zip(1, undefined)).toBeUndefined();
+        expect(Maybe.all([1, 2, 3])).toEqual([1, 2, 3]);
+    });
+
+    describe("Option", function() {
+        it("wraps the bare-function style", function() {
+            const result = Option.of(4)
+                .map(n => n * 2)
+                .flatMap(n => n > 5 ? n : undefined)
+                .filter(n => n % 2 === 0);
+            expect(result.toMaybe()).toBe(8);
+            expect(Option.some(1).flatMap(() => Option.none<number>()).isNone()).toBe(true);
+            expect(Option.none<number>().orElse(() => 3).getOrElse(0)).toBe(3);
+            expect(Option.of<number>(undefined).toArray()).toEqual([]);
+        });
+    });
+});
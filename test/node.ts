@@ -0,0 +1,84 @@
+"use strict";
+
+import { EventEmitter } from "events";
+import { Readable, Writable } from "stream";
+import { Observable } from "../src/reactive/observable";
+
+describe("node interop", function() {
+    it("triggers EventEmitter events until a completion event", async function() {
+        const emitter = new EventEmitter();
+        const events = Observable.fromEvent<number>(emitter, "data", { complete: "end" });
+        const result = events.collect();
+
+        emitter.emit("data", 1);
+        emitter.emit("data", 2);
+        emitter.emit("end");
+        emitter.emit("data", 3);
+
+        expect(await result).toEqual([1, 2]);
+        expect(emitter.eventNames()).toEqual([]);
+    });
+
+    it("fails on error events and selects event arguments", async function() {
+        const emitter = new EventEmitter();
+        const events = Observable.fromEvent(emitter, "pair",
+            { selector: (a: number, b: number) => a + b });
+        const values: number[] = [];
+        const result = events.forEach(v => values.push(v));
+
+        emitter.emit("pair", 1, 2);
+        emitter.emit("error", "boom");
+
+        await expect(result).rejects.toBe("boom");
+        expect(values).toEqual([3]);
+        expect(emitter.eventNames()).toEqual([]);
+    });
+
+    it("triggers the chunks of a Readable stream", async function() {
+        const stream = Readable.from(["a", "b", "c"]);
+        expect(await Observable.fromReadable(stream).collect()).toEqual(["a", "b", "c"]);
+        expect(stream.listenerCount("data")).toBe(0);
+    });
+
+    it("fails with the errors of a Readable stream", async function() {
+        const stream = new Readable({ read() { this.destroy(new Error("broken")); } });
+        await expect(Observable.fromReadable(stream).collect()).rejects.toHaveProperty("message", "broken");
+    });
+
+    it("pipes to a Writable stream, respecting backpressure", async function() {
+        const chunks = Array.from({ length: 20 }, (_, i) => i);
+        const source = Readable.from(chunks);
+        const written: number[] = [];
+        let pausedWhileWriting = false;
+        const sink = new Writable({
+            objectMode: true,
+            highWaterMark: 2,
+            write(chunk: number, encoding: string, callback: () => void) {
+                pausedWhileWriting = pausedWhileWriting || source.isPaused();
+                written.push(chunk);
+                setTimeout(callback, 1);
+            }
+        });
+
+        await Observable.fromReadable<number>(source).pipeTo(sink);
+
+        expect(written).toEqual(chunks);
+        expect(pausedWhileWriting).toBe(true);
+        expect(sink.writableFinished).toBe(true);
+    });
+
+    it("rejects and detaches if the Writable stream fails", async function() {
+        const emitter = new EventEmitter();
+        const sink = new Writable({
+            write(chunk: any, encoding: string, callback: (err: Error) => void) {
+                callback(new Error("full"));
+            }
+        });
+        const piped = Observable.fromEvent<string>(emitter, "data").pipeTo(sink);
+
+        emitter.emit("data", "x");
+
+        await expect(piped).rejects.toHaveProperty("message", "full");
+        expect(emitter.listenerCount("data")).toBe(0);
+    });
+});
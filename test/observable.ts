@@ -2,7 +2,12 @@
 
 // This could be improved with project references-- right now we include src/**/*.ts in
 // our compilation just to get this line to work.
-import { Observable, Listener, Signal } from "../src/reactive/observable";
+import {
+    Observable, Listener, Signal, Subject, BehaviorSubject, ReplaySubject, AbortError,
+    EmptyError
+} from "../src/reactive/observable";
+import { AbortSignalLike } from "../src/reactive/dom";
+import { TestScheduler } from "../src/reactive/testing";
 
 
 describe("Observable", function() {
@@ -22,6 +27,22 @@ describe("Observable", function() {
         };
     }
 
+    function getTornDown<T>(): { o: Observable<T>, t: Listener<T>, d: Signal, count: () => number } {
+        let t: Listener<T>;
+        let d: Signal;
+        let count = 0;
+        return {
+            o: new Observable<T>((trigger, done) => {
+                t = trigger;
+                d = done;
+                return () => { ++count; };
+            }),
+            t: t!,
+            d: d!,
+            count: () => count
+        };
+    }
+
     it("executes executor immediately", function() {
         let executed = false;
         new Observable<number>(() => { executed = true; });
@@ -130,4 +151,1027 @@ describe("Observable", function() {
         });
     });
 
+    describe("flatMap", function() {
+        it("completes once outer and inner observables are done", function(done) {
+            const outer = getObservable<number>();
+            const inners = [getObservable<number>(), getObservable<number>()];
+            const seen: number[] = [];
+            outer.o.flatMap(n => inners[n].o)
+                .forEach(n => seen.push(n))
+                .then(() => {
+                    expect(seen).toEqual([1, 2, 3]);
+                    done();
+                }).catch(fail);
+
+            outer.t(0); outer.t(1);
+            inners[0].t(1); inners[1].t(2); inners[1].d();
+            outer.d();
+            inners[0].t(3); inners[0].d();
+        });
+
+        it("fails when an inner observable fails", function(done) {
+            const outer = getObservable<number>();
+            const inner = getObservable<number>();
+            outer.o.flatMap(n => inner.o)
+                .then(fail).catch((err: any) => {
+                    expect(err).toBe("inner");
+                    done();
+                });
+
+            outer.t(1);
+            inner.r("inner");
+        });
+
+        it("concatMap listens to inner observables sequentially", function(done) {
+            const outer = getObservable<number>();
+            const inners = [getObservable<string>(), getObservable<string>()];
+            outer.o.concatMap(n => inners[n].o).collect().then(values => {
+                expect(values).toEqual(["a", "c"]);
+                done();
+            }).catch(fail);
+
+            outer.t(0); outer.t(1); outer.d();
+            inners[1].t("b");
+            inners[0].t("a"); inners[0].d();
+            inners[1].t("c"); inners[1].d();
+        });
+
+        it("mergeMap limits concurrency", function(done) {
+            const outer = getObservable<number>();
+            const inners = [getObservable<string>(), getObservable<string>(), getObservable<string>()];
+            outer.o.mergeMap(n => inners[n].o, 2).collect().then(values => {
+                expect(values).toEqual(["a", "b", "d"]);
+                done();
+            }).catch(fail);
+
+            outer.t(0); outer.t(1); outer.t(2); outer.d();
+
+            inners[0].t("a"); inners[1].t("b"); inners[2].t("c");
+            inners[0].d();
+            inners[2].t("d"); inners[1].d(); inners[2].d();
+        });
+
+        it("switchMap unsubscribes from the previous inner observable", function(done) {
+            const outer = getObservable<number>();
+            const inners = [getObservable<string>(), getObservable<string>()];
+            outer.o.switchMap(n => inners[n].o).collect().then(values => {
+                expect(values).toEqual(["a", "b"]);
+                expect(inners[0].o.isDone()).toBe(true);
+                done();
+            }).catch(fail);
+
+            outer.t(0); inners[0].t("a");
+            outer.t(1); inners[0].t("x"); inners[1].t("b");
+            outer.d(); inners[1].d();
+        });
+
+        it("exhaustMap ignores events while an inner observable is ongoing", function(done) {
+            const outer = getObservable<number>();
+            const inners = [getObservable<string>(), getObservable<string>(), getObservable<string>()];
+            outer.o.exhaustMap(n => inners[n].o).collect().then(values => {
+                expect(values).toEqual(["a", "c"]);
+                done();
+            }).catch(fail);
+
+            outer.t(0); outer.t(1); inners[0].t("a"); inners[1].t("b"); inners[0].d();
+            outer.t(2); outer.d(); inners[2].t("c"); inners[2].d();
+        });
+    });
+
+    describe("async iteration", function() {
+        it("iterates with for await", async function() {
+            const obs = getObservable<number>();
+            setTimeout(() => { obs.t(1); obs.t(2); obs.d(); }, 0);
+
+            const seen: number[] = [];
+            for await (const n of obs.o) {
+                seen.push(n);
+            }
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it("unsubscribes from the source when exiting early", async function() {
+            const obs = getObservable<number>();
+            setTimeout(() => { obs.t(1); obs.t(2); }, 0);
+
+            for await (const n of obs.o) {
+                expect(n).toBe(1);
+                break;
+            }
+            expect(obs.o.isDone()).toBe(true);
+        });
+
+        it("rejects when the source fails", async function() {
+            const obs = getObservable<number>();
+            setTimeout(() => obs.r("failed"), 0);
+
+            const iterator = obs.o[Symbol.asyncIterator]();
+            await expect(iterator.next()).rejects.toBe("failed");
+        });
+
+        it("bridges async iterables", async function() {
+            async function* generate() {
+                yield 1;
+                yield 2;
+                yield 3;
+            }
+            const values = await Observable.fromAsyncIterable(generate()).collect();
+            expect(values).toEqual([1, 2, 3]);
+        });
+
+        it("closes the async iterable on teardown", async function() {
+            let closed = false;
+            async function* generate() {
+                try {
+                    for (let i = 0; ; ++i) yield i;
+                } finally {
+                    closed = true;
+                }
+            }
+            const values = await Observable.fromAsyncIterable(generate()).firstN(3).collect();
+            expect(values).toEqual([0, 1, 2]);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(closed).toBe(true);
+        });
+    });
+
+    describe("filter", function() {
+        it("preserves event order with async predicates", async function() {
+            const obs = getObservable<number>();
+            const filtered = obs.o.filter(n => new Promise<boolean>(resolve => {
+                setTimeout(() => resolve(n % 2 === 1), 10 - n);
+            })).collect();
+            [1, 2, 3, 4, 5].forEach(obs.t);
+            obs.d();
+
+            expect(await filtered).toEqual([1, 3, 5]);
+        });
+
+        it("combines sync and async conditions", async function() {
+            const obs = getObservable<number>();
+            const filtered = obs.o.withConditions(
+                n => n > 1,
+                n => Promise.resolve(n % 2 === 1)
+            ).collect();
+            [1, 2, 3, 4, 5].forEach(obs.t);
+            obs.d();
+
+            expect(await filtered).toEqual([3, 5]);
+        });
+
+        it("fails when an async predicate rejects", async function() {
+            const obs = getObservable<number>();
+            const filtered = obs.o.filter(() => Promise.reject("rejected")).collect();
+            obs.t(1);
+
+            await expect(filtered).rejects.toBe("rejected");
+        });
+    });
+
+    describe("batching", function() {
+        it("buffers by count", async function() {
+            const obs = getObservable<number>();
+            const buffers = obs.o.bufferCount(2).collect();
+            const overlapping = obs.o.bufferCount(3, 1).collect();
+            [1, 2, 3, 4, 5].forEach(obs.t);
+            obs.d();
+
+            expect(await buffers).toEqual([[1, 2], [3, 4], [5]]);
+            expect(await overlapping).toEqual([[1, 2, 3], [2, 3, 4], [3, 4, 5], [4, 5], [5]]);
+        });
+
+        it("buffers until a notifier triggers", async function() {
+            const obs = getObservable<number>();
+            const notifier = getObservable<void>();
+            const buffers = obs.o.bufferWhen(notifier.o).collect();
+            obs.t(1); obs.t(2); notifier.t(undefined);
+            notifier.t(undefined);
+            obs.t(3); obs.d();
+
+            expect(await buffers).toEqual([[1, 2], [3]]);
+        });
+
+        it("opens windows by count", async function() {
+            const obs = getObservable<number>();
+            const windows: Promise<number[]>[] = [];
+            const opened = obs.o.windowCount(2).forEach(w => windows.push(w.collect()));
+            [1, 2, 3].forEach(obs.t);
+            obs.d();
+
+            await opened;
+            expect(await Promise.all(windows)).toEqual([[1, 2], [3]]);
+        });
+
+        it("pairs consecutive events", async function() {
+            const obs = getObservable<number>();
+            const pairs = obs.o.pairwise().collect();
+            [1, 2, 3].forEach(obs.t);
+            obs.d();
+
+            expect(await pairs).toEqual([[1, 2], [2, 3]]);
+        });
+
+        it("groups events by key", async function() {
+            const obs = getObservable<string>();
+            const groups: { [key: number]: Promise<string[]> } = {};
+            const grouped = obs.o.groupBy(s => s.length).forEach(group => {
+                groups[group.key] = group.collect();
+            });
+            ["a", "bb", "c", "dd", "eee"].forEach(obs.t);
+            obs.d();
+
+            await grouped;
+            expect(await groups[1]).toEqual(["a", "c"]);
+            expect(await groups[2]).toEqual(["bb", "dd"]);
+            expect(await groups[3]).toEqual(["eee"]);
+        });
+    });
+
+    describe("combination", function() {
+        it("merges any number of observables", async function() {
+            const sources = [getObservable<number>(), getObservable<number>(), getObservable<number>()];
+            const merged = Observable.merge(...sources.map(source => source.o)).collect();
+            sources[0].t(1); sources[2].t(3); sources[1].t(2);
+            sources.forEach(source => source.d());
+
+            expect(await merged).toEqual([1, 3, 2]);
+        });
+
+        it("concatenates any number of observables", async function() {
+            const sources = [getObservable<number>(), getObservable<number>(), getObservable<number>()];
+            const concatenated = sources[0].o.concat(sources[1].o, sources[2].o).collect();
+            sources[1].t(0);
+            sources[0].t(1); sources[0].d();
+            sources[1].t(2); sources[1].d();
+            sources[2].t(3); sources[2].d();
+
+            expect(await concatenated).toEqual([1, 2, 3]);
+        });
+
+        it("zips events in order", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<string>();
+            const zipped: Promise<[number, string][]> = Observable.zip(a.o, b.o).collect();
+            a.t(1); a.t(2); b.t("a"); a.t(3); a.d();
+            b.t("b"); b.t("c"); b.t("d");
+
+            expect(await zipped).toEqual([[1, "a"], [2, "b"], [3, "c"]]);
+        });
+
+        it("combines latest events", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<string>();
+            const combined = Observable.combineLatest(a.o, b.o).collect();
+            a.t(1); a.t(2); b.t("a"); a.t(3); b.t("b");
+            a.d(); b.d();
+
+            expect(await combined).toEqual([[2, "a"], [3, "a"], [3, "b"]]);
+        });
+
+        it("pairs events with the latest of others", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<string>();
+            const combined = a.o.withLatestFrom(b.o).collect();
+            a.t(1); b.t("a"); a.t(2); b.t("b"); b.t("c"); a.t(3);
+            a.d();
+
+            expect(await combined).toEqual([[2, "a"], [3, "c"]]);
+        });
+
+        it("races observables", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<number>();
+            const raced = Observable.race(a.o, b.o).collect();
+            b.t(1); a.t(2); b.t(3); a.d(); b.d();
+
+            expect(await raced).toEqual([1, 3]);
+        });
+
+        it("joins last events of all observables", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<string>();
+            const joined = Observable.forkJoin(a.o, b.o).collect();
+            a.t(1); b.t("a"); a.t(2); a.d(); b.t("b"); b.d();
+
+            expect(await joined).toEqual([[2, "b"]]);
+        });
+    });
+
+    describe("error recovery", function() {
+        it("remembers failure for late listeners", async function() {
+            const obs = getObservable<number>();
+            obs.o.forEach(() => { }).catch(() => { });
+            obs.r("failed");
+
+            await expect(obs.o.collect()).rejects.toBe("failed");
+        });
+
+        it("catchError continues with a fallback", async function() {
+            const obs = getObservable<number>();
+            const fallback = getObservable<number>();
+            const caught = obs.o.catchError(err => {
+                expect(err).toBe("failed");
+                return fallback.o;
+            }).collect();
+            obs.t(1); obs.r("failed");
+            fallback.t(2); fallback.d();
+
+            expect(await caught).toEqual([1, 2]);
+        });
+
+        it("retry re-creates a failing observable", async function() {
+            let attempts = 0;
+            const retried = Observable.retry(() => {
+                ++attempts;
+                return Observable.fromPromise(attempts < 3 ? Promise.reject("failed") : Promise.resolve(attempts));
+            }, 5);
+
+            expect(await retried.collect()).toEqual([3]);
+            expect(attempts).toBe(3);
+        });
+
+        it("retry receives synchronous values of re-created observables", async function() {
+            const retried = Observable.retry(() => Observable.just(7), 5);
+            expect(await retried.collect()).toEqual([7]);
+        });
+
+        it("retry fails after count attempts", async function() {
+            let attempts = 0;
+            const retried = Observable.retry(() => {
+                ++attempts;
+                return Observable.throw(new Error("failed"));
+            }, 2);
+
+            await expect(retried.collect()).rejects.toEqual(new Error("failed"));
+            expect(attempts).toBe(3);
+        });
+
+        it("finalize runs on completion, failure and unsubscribe", function() {
+            const finalized: string[] = [];
+            const a = getObservable<number>();
+            const b = getObservable<number>();
+            const c = getObservable<number>();
+            a.o.finalize(() => finalized.push("a")).forEach(() => { });
+            b.o.finalize(() => finalized.push("b")).forEach(() => { }).catch(() => { });
+            c.o.finalize(() => finalized.push("c")).firstN(1).forEach(() => { });
+
+            a.d(); b.r("failed"); c.t(1);
+            expect(finalized).toEqual(["a", "b", "c"]);
+        });
+
+        it("materializes failures as Results and back", async function() {
+            const obs = getObservable<number>();
+            const materialized = obs.o.materialize();
+            const results = materialized.collect();
+            const dematerialized = materialized.dematerialize().collect();
+            obs.t(1); obs.r("failed");
+
+            expect(await results).toEqual([{ ok: true, value: 1 }, { ok: false, error: "failed" }]);
+            await expect(dematerialized).rejects.toBe("failed");
+        });
+
+        it("onErrorResumeNext ignores failures", async function() {
+            const a = getObservable<number>();
+            const b = getObservable<number>();
+            const resumed = a.o.onErrorResumeNext(b.o).collect();
+            a.t(1); a.r("failed");
+            b.t(2); b.r("failed");
+
+            expect(await resumed).toEqual([1, 2]);
+        });
+    });
+
+    describe("subjects", function() {
+        it("Subject multicasts and remembers failure", function(done) {
+            const subject = new Subject<number>();
+            const seen: number[] = [];
+            subject.forEach(n => seen.push(n)).catch(() => { });
+            subject.next(1);
+            subject.error("failed");
+            subject.next(2);
+
+            expect(seen).toEqual([1]);
+            subject.then(fail).catch(err => {
+                expect(err).toBe("failed");
+                done();
+            });
+        });
+
+        it("Subject stays active without listeners", function() {
+            const subject = new Subject<number>();
+            subject.firstN(1).forEach(() => { });
+            subject.next(1);
+            expect(subject.isDone()).toBe(false);
+        });
+
+        it("BehaviorSubject triggers its current value on attach", function() {
+            const subject = new BehaviorSubject(1);
+            subject.next(2);
+            expect(subject.value).toBe(2);
+
+            const seen: number[] = [];
+            subject.forEach(n => seen.push(n));
+            subject.next(3);
+            expect(seen).toEqual([2, 3]);
+        });
+
+        it("ReplaySubject replays values after completion", async function() {
+            const subject = new ReplaySubject<number>(2);
+            subject.next(1); subject.next(2); subject.next(3);
+            subject.complete();
+
+            expect(await subject.collect()).toEqual([2, 3]);
+        });
+
+        it("ReplaySubject drops values outside its window", function() {
+            const scheduler = new TestScheduler();
+            const subject = new ReplaySubject<number>(Infinity, 100, scheduler);
+            subject.next(1);
+            scheduler.advanceTo(60); subject.next(2);
+            scheduler.advanceTo(120); subject.next(3);
+
+            const seen: number[] = [];
+            subject.forEach(n => seen.push(n));
+            expect(seen).toEqual([2, 3]);
+        });
+
+        it("share listens while it has listeners", function() {
+            const obs = getTornDown<number>();
+            const shared = obs.o.share();
+            const a: number[] = [];
+            const b: number[] = [];
+
+            obs.t(0);
+            const handleA = shared.subscribe({ next: n => a.push(n) });
+            const handleB = shared.subscribe({ next: n => b.push(n) });
+            obs.t(1);
+            handleA.unsubscribe();
+            obs.t(2);
+            expect(obs.count()).toBe(0);
+            handleB.unsubscribe();
+
+            expect(a).toEqual([1]);
+            expect(b).toEqual([1, 2]);
+            expect(obs.count()).toBe(1);
+            expect(shared.isDone()).toBe(true);
+        });
+
+        it("shareReplay lets late listeners catch up", async function() {
+            const obs = getObservable<number>();
+            const shared = obs.o.shareReplay(1);
+            const early = shared.collect();
+            obs.t(1); obs.t(2); obs.d();
+
+            expect(await early).toEqual([1, 2]);
+            expect(await shared.collect()).toEqual([2]);
+        });
+    });
+
+    describe("teardown", function() {
+        it("runs once when done", function() {
+            const obs = getTornDown<number>();
+            obs.o.forEach(() => { });
+            expect(obs.count()).toBe(0);
+
+            obs.d();
+            obs.d();
+            expect(obs.count()).toBe(1);
+        });
+
+        it("runs immediately if executor completes synchronously", function() {
+            let count = 0;
+            const o = new Observable<number>((trigger, done) => {
+                done();
+                return () => { ++count; };
+            });
+            expect(o.isDone()).toBe(true);
+            expect(count).toBe(1);
+        });
+
+        it("propagates through map and filter on unsubscribe", function() {
+            const obs = getTornDown<number>();
+            const seen: number[] = [];
+            obs.o.map(n => n * 2).filter(n => n > 2).firstN(2).forEach(n => seen.push(n));
+
+            obs.t(1); obs.t(2);
+            expect(obs.count()).toBe(0);
+            obs.t(3);
+            expect(seen).toEqual([4, 6]);
+            expect(obs.count()).toBe(1);
+            expect(obs.o.isDone()).toBe(true);
+        });
+
+        it("does not run while other listeners remain", function() {
+            const obs = getTornDown<number>();
+            const seen: number[] = [];
+            obs.o.forEach(n => seen.push(n));
+            obs.o.firstN(1).forEach(() => { });
+
+            obs.t(1);
+            expect(obs.count()).toBe(0);
+            obs.t(2);
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it("stops an interval on firstT", function() {
+            jest.useFakeTimers();
+            const seen: number[] = [];
+            const interval = Observable.interval(10);
+            interval.firstT(35).forEach(n => seen.push(n));
+
+            jest.runTimersToTime(100);
+            expect(seen).toEqual([0, 1, 2]);
+            expect(interval.isDone()).toBe(true);
+            jest.useRealTimers();
+        });
+    });
+
+    describe("cancellation", function() {
+        // jest's environment lacks AbortController, so we use a minimal signal.
+        class TestSignal implements AbortSignalLike {
+            aborted = false;
+            private listeners: ((event: any) => void)[] = [];
+            addEventListener(type: string, listener: (event: any) => void): void {
+                this.listeners.push(listener);
+            }
+            removeEventListener(type: string, listener: (event: any) => void): void {
+                this.listeners = this.listeners.filter(l => l !== listener);
+            }
+            abort(): void {
+                this.aborted = true;
+                this.listeners.slice().forEach(l => l({ type: "abort" }));
+            }
+            get listenerCount(): number {
+                return this.listeners.length;
+            }
+        }
+
+        it("rejects and tears down forEach and collect once aborted", async function() {
+            const obs = getTornDown<number>();
+            const signal = new TestSignal();
+            const seen: number[] = [];
+            const each = obs.o.forEach(n => seen.push(n), signal);
+            const collected = obs.o.collect(signal);
+
+            obs.t(1);
+            signal.abort();
+            obs.t(2);
+
+            await expect(each).rejects.toBeInstanceOf(AbortError);
+            await expect(collected).rejects.toBeInstanceOf(AbortError);
+            expect(seen).toEqual([1]);
+            expect(obs.count()).toBe(1);
+            expect(signal.listenerCount).toBe(0);
+        });
+
+        it("rejects immediately if already aborted", async function() {
+            const obs = getTornDown<number>();
+            const signal = new TestSignal();
+            signal.abort();
+
+            await expect(obs.o.all(n => n > 0, signal)).rejects.toBeInstanceOf(AbortError);
+            await expect(obs.o.any(n => n > 0, signal)).rejects.toBeInstanceOf(AbortError);
+            await expect(obs.o.whenDone(signal)).rejects.toBeInstanceOf(AbortError);
+        });
+
+        it("releases the signal once settled", async function() {
+            const obs = getObservable<number>();
+            const signal = new TestSignal();
+            const all = obs.o.all(n => n > 0, signal);
+            const any = obs.o.any(n => n > 1, signal);
+            const done = obs.o.whenDone(signal);
+
+            obs.t(1); obs.t(2); obs.d();
+
+            expect(await all).toBe(true);
+            expect(await any).toBe(true);
+            expect(await done).toBeUndefined();
+            expect(signal.listenerCount).toBe(0);
+        });
+
+        it("rejects when awaiting a failed Observable", async function() {
+            const obs = getObservable<number>();
+            obs.r("boom");
+            await expect((async () => { await obs.o; })()).rejects.toBe("boom");
+            expect(await obs.o.then(() => "done", err => `caught ${err}`)).toBe("caught boom");
+        });
+
+        it("takes events until a notifier triggers", async function() {
+            const obs = getTornDown<number>();
+            const notifier = getObservable<void>();
+            const result = obs.o.takeUntil(notifier.o).collect();
+
+            obs.t(1); obs.t(2);
+            notifier.t(undefined);
+            obs.t(3);
+
+            expect(await result).toEqual([1, 2]);
+            expect(obs.count()).toBe(1);
+        });
+
+        it("fails if the notifier fails", async function() {
+            const obs = getObservable<number>();
+            const notifier = getObservable<void>();
+            const result = obs.o.takeUntil(notifier.o).collect();
+
+            notifier.r("boom");
+            await expect(result).rejects.toBe("boom");
+        });
+
+        it("takes events until a signal is aborted", async function() {
+            const obs = getTornDown<number>();
+            const signal = new TestSignal();
+            const result = obs.o.takeUntilSignal(signal).collect();
+
+            obs.t(1);
+            signal.abort();
+            obs.t(2);
+
+            expect(await result).toEqual([1]);
+            expect(obs.count()).toBe(1);
+            expect(signal.listenerCount).toBe(0);
+            expect(obs.o.takeUntilSignal(signal).isDone()).toBe(true);
+        });
+    });
+
+    describe("terminal operators", function() {
+        function emit<T>(values: T[]): { o: Observable<T>, count: () => number } {
+            const obs = getTornDown<T>();
+            // listeners attach synchronously, before the values are emitted.
+            Promise.resolve().then(() => {
+                values.forEach(obs.t);
+                obs.d();
+            });
+            return obs;
+        }
+
+        it("finds the first event, unsubscribing early", async function() {
+            const obs = getTornDown<number>();
+            const first = obs.o.first(n => n > 1);
+
+            obs.t(1); obs.t(2);
+            expect(obs.count()).toBe(1);
+            expect(await first).toBe(2);
+        });
+
+        it("rejects with an EmptyError or resolves a default on empty sources", async function() {
+            await expect(emit<number>([]).o.first()).rejects.toBeInstanceOf(EmptyError);
+            await expect(emit([1]).o.last(n => n > 1)).rejects.toBeInstanceOf(EmptyError);
+            await expect(emit<number>([]).o.min()).rejects.toBeInstanceOf(EmptyError);
+            expect(await emit<number>([]).o.first(undefined, 0)).toBe(0);
+            expect(await emit([1]).o.last(n => n > 1, undefined)).toBeUndefined();
+            expect(await emit([1, 2, 3]).o.last()).toBe(3);
+        });
+
+        it("finds events and their indices", async function() {
+            expect(await emit([1, 2, 3]).o.find(n => n % 2 === 0)).toBe(2);
+            expect(await emit([1, 3]).o.find(n => n % 2 === 0)).toBeUndefined();
+            expect(await emit([1, 2, 3]).o.findIndex(n => n === 3)).toBe(2);
+            expect(await emit([1]).o.findIndex(n => n === 3)).toBe(-1);
+        });
+
+        it("rejects if the predicate throws", async function() {
+            const obs = emit([1]);
+            await expect(obs.o.first(() => { throw "bad"; })).rejects.toBe("bad");
+        });
+
+        it("aggregates events", async function() {
+            expect(await emit([1, 2, 3]).o.count()).toBe(3);
+            expect(await emit([1, 2, 3]).o.count(n => n > 1)).toBe(2);
+            expect(await emit([2, 3, 1]).o.min()).toBe(1);
+            expect(await emit([2, 3, 1]).o.max()).toBe(3);
+            expect(await emit<number>([]).o.sum()).toBe(0);
+            expect(await emit([1, 2, 3]).o.sum()).toBe(6);
+
+            const words = ["bb", "a", "cc"];
+            const byLength = (a: string, b: string) => a.length - b.length;
+            expect(await emit(words).o.max(byLength)).toBe("bb");
+            expect(await emit(words).o.min(byLength)).toBe("a");
+        });
+
+        it("collects events into a Map or a Set", async function() {
+            const map = await emit(["apple", "avocado", "banana"]).o.toMap(w => w[0]);
+            expect(Array.from(map.entries())).toEqual([["a", "avocado"], ["b", "banana"]]);
+
+            const set = await emit([1, 2, 1]).o.toSet();
+            expect(Array.from(set)).toEqual([1, 2]);
+        });
+    });
+
+    describe("stateful operators", function() {
+        it("scans with and without a seed", async function() {
+            const obs = getObservable<number>();
+            const seeded = obs.o.scan("", (acc, n) => acc + n).collect();
+            const unseeded = obs.o.scan((acc, n) => acc + n).collect();
+
+            obs.t(1); obs.t(2); obs.t(3); obs.d();
+
+            expect(await seeded).toEqual(["1", "12", "123"]);
+            expect(await unseeded).toEqual([1, 3, 6]);
+        });
+
+        it("reduces to the final value only", async function() {
+            const obs = getObservable<number>();
+            const seeded = obs.o.reduce(10, (acc, n) => acc + n).collect();
+            const unseeded = obs.o.reduce((acc, n) => acc * n).collect();
+
+            obs.t(2); obs.t(3);
+            obs.d();
+
+            expect(await seeded).toEqual([15]);
+            expect(await unseeded).toEqual([6]);
+        });
+
+        it("reduces empty Observables to the seed, or fails", async function() {
+            const obs = getObservable<number>();
+            const seeded = obs.o.reduce(0, (acc, n) => acc + n).collect();
+            const unseeded = obs.o.reduce((acc, n) => acc + n).collect();
+
+            obs.d();
+
+            expect(await seeded).toEqual([0]);
+            await expect(unseeded).rejects.toBeInstanceOf(EmptyError);
+        });
+
+        it("skips unchanged and repeated events", async function() {
+            const obs = getObservable<{ id: number }>();
+            const flush = getObservable<void>();
+            const changed = obs.o.distinctUntilChanged((a, b) => a.id === b.id)
+                .map(x => x.id).collect();
+            const distinct = obs.o.distinct(x => x.id, flush.o).map(x => x.id).collect();
+
+            [1, 1, 2, 1].forEach(id => obs.t({ id }));
+            flush.t(undefined);
+            [2, 2].forEach(id => obs.t({ id }));
+            obs.d();
+
+            expect(await changed).toEqual([1, 2, 1, 2]);
+            expect(await distinct).toEqual([1, 2, 2]);
+        });
+
+        it("takes and skips the last events", async function() {
+            const obs = getObservable<number>();
+            const taken = obs.o.takeLast(2).collect();
+            const skipped: number[] = [];
+            const skipping = obs.o.skipLast(2).forEach(n => skipped.push(n));
+
+            obs.t(1); obs.t(2); obs.t(3);
+            expect(skipped).toEqual([1]);
+            obs.t(4); obs.d();
+
+            expect(await taken).toEqual([3, 4]);
+            await skipping;
+            expect(skipped).toEqual([1, 2]);
+        });
+
+        it("skips and takes while a predicate holds", async function() {
+            const obs = getTornDown<number>();
+            const skipped = obs.o.skipWhile(n => n < 3).collect();
+            const taken = obs.o.takeWhile(n => n < 3).collect();
+            const inclusive = obs.o.takeWhile(n => n < 3, true).collect();
+
+            [1, 2, 3, 1].forEach(obs.t);
+            obs.d();
+
+            expect(await skipped).toEqual([3, 1]);
+            expect(await taken).toEqual([1, 2]);
+            expect(await inclusive).toEqual([1, 2, 3]);
+        });
+
+        it("unsubscribes once takeWhile is done", function() {
+            const obs = getTornDown<number>();
+            obs.o.takeWhile(n => n < 2).forEach(() => { });
+
+            obs.t(1);
+            expect(obs.count()).toBe(0);
+            obs.t(2);
+            expect(obs.count()).toBe(1);
+        });
+
+        it("starts and ends with values", async function() {
+            const obs = getObservable<number>();
+            const result = obs.o.startWith(-1, 0).endWith(9).map(n => n * 2).collect();
+
+            // events triggered synchronously are held back until after -1, 0
+            obs.t(1);
+            await Promise.resolve();
+            obs.t(2); obs.d();
+
+            expect(await result).toEqual([-2, 0, 2, 4, 18]);
+        });
+    });
+
+    describe("observers", function() {
+        it("receives events, then completion", function() {
+            const obs = getObservable<number>();
+            const events: string[] = [];
+            const handle = obs.o.subscribe({
+                next: n => events.push(`next ${n}`),
+                complete: () => events.push("complete")
+            });
+
+            obs.t(1);
+            expect(handle.closed).toBe(false);
+            obs.d();
+
+            expect(events).toEqual(["next 1", "complete"]);
+            expect(handle.closed).toBe(true);
+        });
+
+        it("receives failures", function() {
+            const obs = getObservable<number>();
+            const errors: any[] = [];
+            const handle = obs.o.subscribe({ error: err => errors.push(err) });
+
+            obs.r("boom");
+
+            expect(errors).toEqual(["boom"]);
+            expect(handle.closed).toBe(true);
+        });
+
+        it("tears down once unsubscribed", function() {
+            const obs = getTornDown<number>();
+            const seen: number[] = [];
+            const handle = obs.o.subscribe({ next: n => seen.push(n) });
+
+            obs.t(1);
+            handle.unsubscribe();
+            handle.unsubscribe();
+            obs.t(2);
+
+            expect(seen).toEqual([1]);
+            expect(handle.closed).toBe(true);
+            expect(obs.count()).toBe(1);
+        });
+
+        it("unsubscribes and reports errors thrown by next", function() {
+            const obs = getObservable<number>();
+            const errors: any[] = [];
+            const seen: number[] = [];
+            const handle = obs.o.subscribe({
+                next: () => { throw "bad"; },
+                error: err => errors.push(err)
+            });
+            obs.o.subscribe({ next: n => seen.push(n) });
+
+            obs.t(1); obs.t(2);
+
+            expect(errors).toEqual(["bad"]);
+            expect(handle.closed).toBe(true);
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it("rethrows failures asynchronously without an error callback", function() {
+            jest.useFakeTimers();
+            const obs = getObservable<number>();
+            obs.o.subscribe({});
+
+            obs.r("boom");
+
+            expect(() => jest.runAllTimers()).toThrow("boom");
+            jest.useRealTimers();
+        });
+
+        it("closes immediately on finished Observables", function() {
+            const obs = getObservable<number>();
+            obs.d();
+            let completed = false;
+            const handle = obs.o.subscribe({ complete: () => completed = true });
+
+            expect(completed).toBe(true);
+            expect(handle.closed).toBe(true);
+        });
+    });
+
+    describe("lazy creation", function() {
+        it("does not start until a listener attaches", async function() {
+            let started = 0;
+            const deferred = Observable.defer(() => {
+                ++started;
+                return Observable.fromIterable([1, 2]);
+            });
+            await Promise.resolve();
+            expect(started).toBe(0);
+
+            expect(await deferred.map(n => n * 10).collect()).toEqual([10, 20]);
+            expect(started).toBe(1);
+        });
+
+        it("calls the factory for each listener", async function() {
+            let started = 0;
+            const deferred = Observable.defer(() => {
+                ++started;
+                return Observable.just(started);
+            });
+
+            expect(await deferred.collect()).toEqual([1]);
+            expect(await deferred.collect()).toEqual([2]);
+
+            const iterable = Observable.defer(() => Observable.fromIterable([1, 2]));
+            expect(await iterable.collect()).toEqual([1, 2]);
+            expect(await iterable.collect()).toEqual([1, 2]);
+
+            const ranges = Observable.defer(() => Observable.range(0, 2));
+            expect(await ranges.collect()).toEqual([0, 1]);
+            expect(await ranges.collect()).toEqual([0, 1]);
+        });
+
+        it("fails if the factory throws", async function() {
+            const deferred = Observable.defer<number>(() => { throw "bad"; });
+            await expect(deferred.collect()).rejects.toBe("bad");
+        });
+
+        it("triggers ranges and generated sequences", async function() {
+            expect(await Observable.range(3, 4).collect()).toEqual([3, 4, 5, 6]);
+            expect(await Observable.range(3, 0).collect()).toEqual([]);
+            expect(await Observable.generate(1, n => n < 20, n => n * 3).collect())
+                .toEqual([1, 3, 9]);
+            expect(await Observable.fromIterable(new Set(["a", "b"])).collect())
+                .toEqual(["a", "b"]);
+        });
+
+        it("stops iterating once torn down", async function() {
+            let pulled = 0;
+            function* naturals() {
+                for (let i = 0; ; ++i) {
+                    ++pulled;
+                    yield i;
+                }
+            }
+
+            expect(await Observable.fromIterable(naturals()).firstN(3).collect())
+                .toEqual([0, 1, 2]);
+            expect(pulled).toBe(3);
+        });
+
+        it("converts callbacks", async function() {
+            const fromCallback = Observable.fromCallback<string>(cb => cb("called"));
+            expect(await fromCallback.collect()).toEqual(["called"]);
+
+            const divide = Observable.bindNodeCallback(
+                (a: number, b: number, cb: (err: any, result: number) => void) => {
+                    if (b === 0) cb("division by zero", 0);
+                    else cb(undefined, a / b);
+                });
+            expect(await divide(6, 3).collect()).toEqual([2]);
+            await expect(divide(1, 0).collect()).rejects.toBe("division by zero");
+        });
+    });
+
+    describe("tap", function() {
+        it("calls its callbacks, then forwards events", async function() {
+            const obs = getObservable<number>();
+            const events: string[] = [];
+            const result = obs.o.tap({
+                next: n => events.push(`next ${n}`),
+                complete: () => events.push("complete")
+            }).forEach(n => events.push(`forward ${n}`));
+
+            obs.t(1);
+            obs.d();
+            await result;
+
+            expect(events).toEqual(["next 1", "forward 1", "complete"]);
+        });
+
+        it("accepts a function and reports failures", async function() {
+            const obs = getObservable<number>();
+            const seen: number[] = [];
+            const errors: any[] = [];
+            const result = obs.o.tap(n => seen.push(n)).tap({
+                error: err => errors.push(err)
+            }).collect();
+
+            obs.t(1);
+            obs.r("boom");
+
+            await expect(result).rejects.toBe("boom");
+            expect(seen).toEqual([1]);
+            expect(errors).toEqual(["boom"]);
+        });
+
+        it("calls unsubscribe only when unsubscribed early", function() {
+            const a = getObservable<number>();
+            const b = getObservable<number>();
+            const unsubscribed: string[] = [];
+
+            a.o.tap({ unsubscribe: () => unsubscribed.push("a") })
+                .firstN(1).forEach(() => { });
+            b.o.tap({ unsubscribe: () => unsubscribed.push("b") })
+                .forEach(() => { });
+            a.t(1);
+            b.d();
+
+            expect(unsubscribed).toEqual(["a"]);
+        });
+
+        it("fails when a callback throws", async function() {
+            const obs = getObservable<number>();
+            const result = obs.o.tap({ complete: () => { throw "bad"; } }).collect();
+
+            obs.d();
+
+            await expect(result).rejects.toBe("bad");
+        });
+    });
 });
@@ -0,0 +1,151 @@
+"use strict";
+
+import { Observable, ObservableLike, OperatorFunction } from "../src/reactive/observable";
+import {
+    pipe, map, filter, scan, reduce, firstN, takeUntil, switchMap, flatMap,
+    withTimeout, withConditions, startWith, bufferWhen, sampleTime, auditTime
+} from "../src/reactive/operators";
+import { TestScheduler } from "../src/reactive/testing";
+
+describe("operators", function() {
+    function getObservable<T>(): { o: Observable<T>, t: (obj: T) => void, d: () => void } {
+        let t: (obj: T) => void = () => { };
+        let d: () => void = () => { };
+        const o = new Observable<T>((trigger, done) => {
+            t = trigger;
+            d = done;
+        });
+        return { o, t, d };
+    }
+
+    it("apply through pipe, from left to right", async function() {
+        const obs = getObservable<number>();
+        const result = obs.o.pipe(
+            map(n => n * 2),
+            filter(n => n > 2),
+            scan("", (acc, n) => acc + n),
+            firstN(2)
+        ).collect();
+
+        [1, 2, 3, 4].forEach(obs.t);
+
+        expect(await result).toEqual(["4", "46"]);
+    });
+
+    it("narrow types with filter", async function() {
+        const obs = getObservable<string | number>();
+        const strings: Observable<string> = obs.o.pipe(
+            filter((x: string | number): x is string => typeof x === "string"));
+        const result = strings.map(s => s.toUpperCase()).collect();
+
+        obs.t(1); obs.t("a"); obs.d();
+
+        expect(await result).toEqual(["A"]);
+    });
+
+    it("compose into custom operators", async function() {
+        const evensHalved = () => pipe(
+            filter((n: number) => n % 2 === 0),
+            map(n => n / 2));
+        const labelled = <T>(label: string): OperatorFunction<T, string> =>
+            source => map((obj: T) => `${label}: ${obj}`)(source);
+
+        const obs = getObservable<number>();
+        const result = obs.o.pipe(evensHalved(), labelled("half")).collect();
+
+        [1, 2, 3, 4].forEach(obs.t);
+        obs.d();
+
+        expect(await result).toEqual(["half: 1", "half: 2"]);
+    });
+
+    it("apply to any ObservableLike", async function() {
+        const obs = getObservable<number>();
+        // hides everything but the ObservableLike interface.
+        const like: ObservableLike<number> = {
+            forEach: (each, signal) => obs.o.forEach(each, signal),
+            map<R>(mapper: (obj: number) => R) { return obs.o.map(mapper); },
+            flatMap<R>(mapper: (obj: number) => Observable<R>) {
+                return obs.o.flatMap(mapper);
+            },
+            filter: predicate => obs.o.filter(predicate),
+            reduce<R>(initialValue: R, accumulate: (residue: R, next: number) => R) {
+                return obs.o.reduce(initialValue, accumulate);
+            },
+            withTimeout: (timeoutMs, scheduler) => obs.o.withTimeout(timeoutMs, scheduler),
+            withConditions: (...conditions) => obs.o.withConditions(...conditions),
+            whileConditions: (...conditions) => obs.o.whileConditions(...conditions),
+            subscribe: executor => obs.o.subscribe(executor),
+            firstN: n => obs.o.firstN(n),
+            firstT: (timeoutMs, scheduler) => obs.o.firstT(timeoutMs, scheduler)
+        };
+        const notifier = getObservable<void>();
+
+        const result = map((n: number) => n + 1)(like).pipe(takeUntil(notifier.o)).collect();
+
+        obs.t(1); obs.t(2);
+        notifier.t(undefined);
+        obs.t(3);
+
+        expect(await result).toEqual([2, 3]);
+        expect(obs.o.isDone()).toBe(true);
+    });
+
+    it("accumulate with or without an initial value", async function() {
+        const obs = getObservable<number>();
+        const sums = obs.o.pipe(scan((a, b) => a + b)).collect();
+        const joined = obs.o.pipe(reduce("", (acc, n) => acc + n)).collect();
+
+        [1, 2, 3].forEach(obs.t);
+        obs.d();
+
+        expect(await sums).toEqual([1, 3, 6]);
+        expect(await joined).toEqual(["123"]);
+    });
+
+    it("flatten, filter asynchronously and buffer", async function() {
+        const obs = getObservable<number>();
+        const notifier = getObservable<void>();
+        const result = obs.o.pipe(
+            flatMap(n => Observable.fromIterable([n, n * 10])),
+            withConditions(n => n > 1, n => Promise.resolve(n !== 10)),
+            bufferWhen(notifier.o)
+        ).collect();
+
+        obs.t(1); obs.t(2);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        notifier.t(undefined);
+        obs.t(3); obs.d();
+
+        expect(await result).toEqual([[2, 20], [3, 30]]);
+    });
+
+    it("sample and audit over time", async function() {
+        const scheduler = new TestScheduler();
+        const source = scheduler.hot("ab-c--d|");
+        const sampled = scheduler.record(source.pipe(sampleTime(3, scheduler)));
+        const audited = scheduler.record(source.pipe(auditTime(2, scheduler)));
+
+        scheduler.flush();
+
+        expect((await sampled).map(e => e.kind === "next" ? e.value : e.kind))
+            .toEqual(["c", "d", "done"]);
+        expect((await audited).map(e => e.kind === "next" ? e.value : e.kind))
+            .toEqual(["b", "c", "d", "done"]);
+    });
+
+    it("keep time-based behavior", async function() {
+        const scheduler = new TestScheduler();
+        const source = scheduler.cold("a-b-c|");
+        const recorded = scheduler.record(source.pipe(
+            switchMap(c => scheduler.cold("x|").pipe(map(() => c))),
+            startWith("<"),
+            withTimeout(3, scheduler)));
+
+        await Promise.resolve();
+        scheduler.flush();
+
+        expect((await recorded).map(e => e.kind === "next" ? e.value : e.kind))
+            .toEqual(["<", "a", "b", "fail"]);
+    });
+});
@@ -0,0 +1,106 @@
+"use strict";
+
+import {
+    every, some, isDefined, isString, isNumber, equals, inRange, matches, hasProperty, shape,
+    everyAsync, someAsync, notAsync, oneOfAsync, noneOfAsync, mapAsync, AsyncPredicate
+} from "../src/predicate";
+import { Observable } from "../src/reactive/observable";
+
+
+describe("async predicates", function() {
+    function delayed<T>(ms: number, predicate: (object: T) => boolean, calls: string[], name: string): AsyncPredicate<T> {
+        return (object: T) => new Promise<boolean>(resolve => setTimeout(() => {
+            calls.push(name);
+            resolve(predicate(object));
+        }, ms));
+    }
+
+    it("combines sync and async predicates", async function() {
+        const positive = (n: number) => n > 0;
+        const even = (n: number) => Promise.resolve(n % 2 === 0);
+
+        expect(await everyAsync([positive, even])(2)).toBe(true);
+        expect(await everyAsync([positive, even])(1)).toBe(false);
+        expect(await someAsync([positive, even])(-2)).toBe(true);
+        expect(await notAsync(even)(1)).toBe(true);
+        expect(await oneOfAsync([positive, even])(2)).toBe(false);
+        expect(await oneOfAsync([positive, even])(1)).toBe(true);
+        expect(await noneOfAsync([positive, even])(-1)).toBe(true);
+        expect(await mapAsync((s: string) => Promise.resolve(s.length), even)("ab")).toBe(true);
+    });
+
+    it("short-circuits sequential evaluation", async function() {
+        const calls: string[] = [];
+        const every = everyAsync([
+            delayed(1, () => false, calls, "a"),
+            delayed(1, () => true, calls, "b")
+        ]);
+
+        expect(await every(0)).toBe(false);
+        expect(calls).toEqual(["a"]);
+    });
+
+    it("resolves parallel evaluation as soon as the outcome is known", async function() {
+        const calls: string[] = [];
+        const some = someAsync([
+            delayed(20, () => false, calls, "slow"),
+            delayed(1, () => true, calls, "fast")
+        ], { evaluation: "parallel" });
+
+        expect(await some(0)).toBe(true);
+        expect(calls).toEqual(["fast"]);
+    });
+
+    it("rejects when a predicate throws", async function() {
+        const every = everyAsync<number>([() => { throw "thrown"; }]);
+        await expect(every(0)).rejects.toBe("thrown");
+    });
+});
+
+describe("predicate library", function() {
+    it("tests primitive values", function() {
+        expect([0, "", undefined, NaN].filter(isDefined)).toEqual([0, "", NaN]);
+        expect([1, "a", NaN, true].filter(isString)).toEqual(["a"]);
+        expect([1, "a", NaN, true].filter(isNumber)).toEqual([1]);
+        expect([1, 2, 3].filter(equals(2))).toEqual([2]);
+        expect([0, 1, 5, 10, 11].filter(inRange(1, 10))).toEqual([1, 5, 10]);
+    });
+
+    it("matches global regexes repeatedly", function() {
+        const digits = matches(/\d+/g);
+        expect(["a1", "b2", "c"].filter(digits)).toEqual(["a1", "b2"]);
+    });
+
+    it("tests properties and shapes", function() {
+        const named = hasProperty("name", isString);
+        expect(named({ name: "x" })).toBe(true);
+        expect(named({ name: 1 })).toBe(false);
+        expect(named({})).toBe(false);
+        expect(named(undefined)).toBe(false);
+        expect(hasProperty("length")("abc")).toBe(true);
+
+        const person = shape({ name: isString, age: every(isNumber, inRange(0, 150)) });
+        expect(person({ name: "x", age: 3, extra: true })).toBe(true);
+        expect(person({ name: "x", age: 200 })).toBe(false);
+        expect(person({ name: "x" })).toBe(false);
+    });
+
+    it("narrows types through combinators and filterWhere", async function() {
+        let trigger: (value: string | number | undefined) => void = () => { };
+        let done: () => void = () => { };
+        const source = new Observable<string | number | undefined>((t, d) => {
+            trigger = t;
+            done = d;
+        });
+
+        const strings: Observable<string> = source.filterWhere(isString);
+        const defined: Observable<string | number> =
+            source.filterWhere(some(isString, isNumber));
+        const result = Promise.all([strings.collect(), defined.collect()]);
+
+        [1, "a", undefined, "b"].forEach(trigger);
+        done();
+
+        expect(await result).toEqual([["a", "b"], [1, "a", "b"]]);
+    });
+});
@@ -0,0 +1,33 @@
+"use strict";
+
+import * as Result from "../src/polymorphic/result";
+
+
+describe("Result", function() {
+    it("maps values and errors", function() {
+        const okay: Result.Result<number, string> = Result.ok(1);
+        const failed: Result.Result<number, string> = Result.err("failed");
+
+        expect(Result.map(okay, n => n + 1)).toEqual(Result.ok(2));
+        expect(Result.map<number, string, number>(failed, n => n + 1)).toBe(failed);
+        expect(Result.mapErr(failed, e => e.length)).toEqual(Result.err(6));
+        expect(Result.flatMap(okay, n => Result.err(`no ${n}`))).toEqual(Result.err("no 1"));
+        expect(Result.unwrapOr(failed, 0)).toBe(0);
+    });
+
+    it("combines Results", function() {
+        expect(Result.all([Result.ok(1), Result.ok(2)])).toEqual(Result.ok([1, 2]));
+        expect(Result.all([Result.ok(1), Result.err("a"), Result.err("b")])).toEqual(Result.err("a"));
+        expect(Result.partition([Result.ok(1), Result.err("a"), Result.ok(2)])).toEqual({
+            values: [1, 2],
+            errors: ["a"]
+        });
+    });
+
+    it("captures thrown errors and rejections", async function() {
+        expect(Result.tryCatch(() => 1)).toEqual(Result.ok(1));
+        expect(Result.tryCatch(() => { throw "thrown"; })).toEqual(Result.err("thrown"));
+        expect(await Result.fromPromise(Promise.resolve(1))).toEqual(Result.ok(1));
+        expect(await Result.fromPromise(Promise.reject("rejected"))).toEqual(Result.err("rejected"));
+    });
+});
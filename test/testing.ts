@@ -0,0 +1,239 @@
+"use strict";
+
+import { Observable, TimeoutError } from "../src/reactive/observable";
+import { TestScheduler, parseMarbles } from "../src/reactive/testing";
+
+
+describe("TestScheduler", function() {
+    let scheduler: TestScheduler;
+    beforeEach(function() {
+        scheduler = new TestScheduler();
+    });
+
+    it("parses marble diagrams", function() {
+        expect(parseMarbles("-a-(bc)-|", { a: 1, b: 2, c: 3 })).toEqual([
+            { time: 1, kind: "next", value: 1 },
+            { time: 3, kind: "next", value: 2 },
+            { time: 3, kind: "next", value: 3 },
+            { time: 5, kind: "done" }
+        ]);
+        expect(parseMarbles("a-^-b-#", {}, "oops")).toEqual([
+            { time: -2, kind: "next", value: "a" },
+            { time: 2, kind: "next", value: "b" },
+            { time: 4, kind: "fail", error: "oops" }
+        ]);
+    });
+
+    it("runs actions in virtual time order", function() {
+        const ran: string[] = [];
+        scheduler.schedule(() => ran.push("b"), 20);
+        scheduler.schedule(() => ran.push("a"), 10);
+        const cancel = scheduler.schedule(() => ran.push("c"), 15);
+        cancel();
+
+        scheduler.advanceBy(10);
+        expect(ran).toEqual(["a"]);
+        expect(scheduler.now()).toBe(10);
+        scheduler.flush();
+        expect(ran).toEqual(["a", "b"]);
+    });
+
+    it("records cold observables", async function() {
+        const recorded = scheduler.record(scheduler.cold("-a--b|"));
+        scheduler.flush();
+        expect(await recorded).toEqual(parseMarbles("-a--b|"));
+    });
+
+    it("replays cold observables to each listener", async function() {
+        const source = scheduler.cold("-a|");
+        const first = scheduler.record(source);
+        scheduler.advanceBy(2);
+        const second = scheduler.record(source);
+        scheduler.flush();
+        expect(await first).toEqual(parseMarbles("-a|"));
+        expect(await second).toEqual(parseMarbles("---a|"));
+    });
+
+    it("skips hot events which already happened", async function() {
+        scheduler.advanceTo(2);
+        const recorded = scheduler.record(scheduler.hot("-a-b-|"));
+        scheduler.flush();
+        expect(await recorded).toEqual(parseMarbles("---b-|"));
+    });
+
+    it("drives firstT and skipT", async function() {
+        // a hot source keeps its timeline while skipT waits. Actions scheduled
+        // for the same time run in the order they were scheduled: the
+        // source's events come before the operators' timers.
+        const source = scheduler.hot("abcdef|");
+        const recorded = scheduler.record(source.skipT(1, scheduler).firstT(4, scheduler));
+        scheduler.flush();
+        expect(await recorded).toEqual(parseMarbles("--cd(e|)"));
+    });
+
+    it("drives withTimeout", async function() {
+        const recorded = scheduler.record(scheduler.cold("a---b|").withTimeout(3, scheduler));
+        scheduler.flush();
+        const events = await recorded;
+        expect(events).toEqual(parseMarbles("a--#", {}, new TimeoutError(3)));
+        expect((events[1] as any).error).toBeInstanceOf(TimeoutError);
+        expect((events[1] as any).error.name).toBe("TimeoutError");
+    });
+
+    it("drives interval", async function() {
+        const recorded = scheduler.record(Observable.interval(2, scheduler).firstN(3));
+        scheduler.flush();
+        expect(await recorded).toEqual(parseMarbles("--a-b-(c|)", { a: 0, b: 1, c: 2 }));
+    });
+
+    describe("time operators", function() {
+        it("debounceTime triggers after a quiet period", async function() {
+            const recorded = scheduler.record(scheduler.cold("ab---c-d|").debounceTime(2, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("---b----(d|)"));
+        });
+
+        it("throttleTime triggers leading events", async function() {
+            const recorded = scheduler.record(scheduler.cold("abc-d---e|").throttleTime(3, {}, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("a---d---e|"));
+        });
+
+        it("throttleTime triggers trailing events", async function() {
+            const throttled = scheduler.cold("abc-----|")
+                .throttleTime(3, { leading: false, trailing: true }, scheduler);
+            const recorded = scheduler.record(throttled);
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("---c----|"));
+        });
+
+        it("sampleTime triggers the latest event per period", async function() {
+            const recorded = scheduler.record(scheduler.hot("ab-c----d|").sampleTime(3, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("---c-----|"));
+        });
+
+        it("auditTime triggers the latest event after a duration", async function() {
+            const recorded = scheduler.record(scheduler.cold("ab---c-|").auditTime(2, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("--b----(c|)"));
+        });
+
+        it("delay shifts events and completion", async function() {
+            const recorded = scheduler.record(scheduler.cold("a-b|").delay(2, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("--a-b|"));
+        });
+
+        it("bufferTime batches events per period", async function() {
+            const recorded = scheduler.record(scheduler.hot("ab-c----d|").bufferTime(3, 2, scheduler));
+            scheduler.flush();
+            expect(await recorded).toEqual(parseMarbles("-x-y-----(z|)", { x: ["a", "b"], y: ["c"], z: ["d"] }));
+        });
+
+        it("windowTime opens windows per period", async function() {
+            const windows: Promise<string[]>[] = [];
+            const opened = scheduler.hot("ab-c----d|").windowTime(3, Infinity, scheduler)
+                .forEach(w => windows.push(w.collect()));
+            scheduler.flush();
+            await opened;
+            expect(await Promise.all(windows)).toEqual([["a", "b", "c"], ["d"]]);
+        });
+
+        it("timeInterval and timestamp report times", async function() {
+            const source = scheduler.cold("a--b|");
+            const intervals = source.timeInterval(scheduler).collect();
+            const timestamps = source.timestamp(scheduler).collect();
+            scheduler.flush();
+            expect(await intervals).toEqual([{ value: "a", interval: 0 }, { value: "b", interval: 3 }]);
+            expect(await timestamps).toEqual([{ value: "a", timestamp: 0 }, { value: "b", timestamp: 3 }]);
+        });
+    });
+
+    it("retries with exponential backoff", async function() {
+        const attempts: number[] = [];
+        const retried = Observable.retryWhen(() => {
+            attempts.push(scheduler.now());
+            return scheduler.cold("a#");
+        }, Observable.backoff({ initialDelayMs: 2, maxRetries: 3, scheduler }));
+        const recorded = scheduler.record(retried);
+        scheduler.flush();
+
+        // failures at 1, 4, 9 and 18, retried 2, 4 then 8 frames later.
+        expect(attempts).toEqual([0, 3, 8, 17]);
+        expect(await recorded).toEqual(parseMarbles("a--a----a--------a#"));
+    });
+
+    it("retries observables replaying their events", async function() {
+        const recorded = scheduler.record(scheduler.cold("a#").retry(2));
+        scheduler.flush();
+        expect(await recorded).toEqual(parseMarbles("aaa#"));
+    });
+
+    it("jitters backoff delays", function() {
+        const backoff = Observable.backoff({
+            initialDelayMs: 100, maxDelayMs: 300, jitter: 0.5, scheduler, random: () => 0.5
+        });
+        [75, 150, 225].forEach((delay, i) => {
+            const notification = backoff("err", i + 1);
+            scheduler.advanceBy(delay - 1);
+            expect(notification.isDone()).toBe(false);
+            scheduler.advanceBy(1);
+            expect(notification.isDone()).toBe(true);
+        });
+    });
+
+    it("triggers timers once or periodically", async function() {
+        const once = scheduler.record(Observable.timer(3, undefined, scheduler));
+        const periodic = scheduler.record(Observable.timer(2, 3, scheduler).firstN(3));
+        scheduler.flush();
+
+        expect(await once).toEqual(parseMarbles("---(0|)", { 0: 0 }));
+        expect(await periodic).toEqual(parseMarbles("--0--1--(2|)", { 0: 0, 1: 1, 2: 2 }));
+    });
+
+    it("cancels periodic timers unsubscribed on their first event", async function() {
+        const first = scheduler.record(Observable.timer(5, 10, scheduler).firstN(1));
+        scheduler.advanceTo(5);
+
+        expect(await first).toEqual(parseMarbles("-----(0|)", { 0: 0 }));
+        expect(scheduler.pendingActions()).toBe(0);
+    });
+
+    it("polls until a stop condition", async function() {
+        let calls = 0;
+        const polled = Observable.poll(() => ++calls, 10, { until: n => n === 3, scheduler });
+        const result = polled.collect();
+
+        // poll starts, and resolves each call, asynchronously.
+        for (let i = 0; i < 3; ++i) {
+            await new Promise(resolve => setImmediate(resolve));
+            scheduler.advanceBy(10);
+        }
+
+        expect(await result).toEqual([1, 2, 3]);
+        expect(calls).toBe(3);
+    });
+
+    it("stops polling once torn down, or after maxAttempts", async function() {
+        let calls = 0;
+        const polled = Observable.poll(() => Promise.resolve(++calls), 10,
+            { maxAttempts: 5, scheduler });
+        const result = polled.firstN(2).collect();
+        const limited = Observable.poll(() => "x", 10, { maxAttempts: 2, scheduler }).collect();
+
+        for (let i = 0; i < 5; ++i) {
+            await new Promise(resolve => setImmediate(resolve));
+            scheduler.advanceBy(10);
+        }
+
+        expect(await result).toEqual([1, 2]);
+        expect(calls).toBe(2);
+        expect(await limited).toEqual(["x", "x"]);
+    });
+
+    it("fails polling if the function rejects", async function() {
+        const polled = Observable.poll(() => Promise.reject("down"), 10, { scheduler });
+        await expect(polled.collect()).rejects.toBe("down");
+    });
+});